@@ -0,0 +1,472 @@
+import type { LambdaInterface } from '@aws-lambda-powertools/commons';
+import type {
+  APIGatewayEvent,
+  Context,
+  Handler,
+  LambdaFunctionURLEvent,
+} from 'aws-lambda';
+import type { Document, WithId } from 'mongodb';
+import type { Writable } from 'node:stream';
+import { getQueryEmbedding } from '../commons/cache';
+import {
+  ASK_DEFAULT_K,
+  ASK_DEFAULT_MAX_TOKENS,
+  ASK_DEFAULT_MIN_SCORE,
+  ASK_DEFAULT_PROMPT_TEMPLATE,
+  VECTOR_SEARCH_DEFAULT_NUM_CANDIDATES,
+} from '../commons/constants';
+import { getEmbeddingProvider } from '../commons/embeddings';
+import type { SearchFilters } from '../commons/filters';
+import {
+  type GeneratedText,
+  getTextModel,
+  type TextModel,
+} from '../commons/generation';
+import { getStringFromEnv } from '../commons/helpers';
+import { logger, tracer } from '../commons/powertools';
+import { vectorSearch } from '../commons/search';
+import { getDefaultSource } from '../commons/sources';
+import { getEmbeddingState } from '../commons/versions';
+
+/**
+ * A retrieved movie, as sent to the model and returned to the caller.
+ */
+type Source = {
+  _id: string;
+  title: string;
+  score: number;
+};
+
+/**
+ * Body of a request to answer a question, with the defaults applied.
+ */
+type AskRequest = {
+  query: string;
+  k: number;
+  promptTemplate: string;
+  maxTokens: number;
+  minScore: number;
+  filters?: SearchFilters;
+};
+
+/**
+ * Globals provided by the Node.js runtime of Lambda to stream the response of a function URL.
+ */
+declare const awslambda: {
+  streamifyResponse: (
+    handler: (
+      event: LambdaFunctionURLEvent,
+      responseStream: Writable,
+      context: Context,
+    ) => Promise<void>,
+  ) => Handler;
+  HttpResponseStream: {
+    from: (
+      responseStream: Writable,
+      metadata: { statusCode: number; headers?: Record<string, string> },
+    ) => Writable;
+  };
+};
+
+/**
+ * Parses the body of the request and applies the defaults.
+ *
+ * @param body - The body of the request
+ */
+const parseAskRequest = (body: string | null | undefined): AskRequest => {
+  const {
+    query,
+    k = ASK_DEFAULT_K,
+    promptTemplate = ASK_DEFAULT_PROMPT_TEMPLATE,
+    maxTokens = ASK_DEFAULT_MAX_TOKENS,
+    minScore = ASK_DEFAULT_MIN_SCORE,
+    filters,
+  }: Partial<AskRequest> = JSON.parse(body || '{}');
+
+  return {
+    query: query as string,
+    k,
+    promptTemplate,
+    maxTokens,
+    minScore,
+    filters,
+  };
+};
+
+/**
+ * Returns why the request is invalid, or `undefined` if it's valid. The API Gateway route validates
+ * the body with its model already, but the function URL that streams the answers doesn't.
+ *
+ * @param request - The parsed request
+ */
+const getAskRequestError = (request: AskRequest): string | undefined => {
+  const { query, k, promptTemplate, maxTokens, minScore } = request;
+  if (typeof query !== 'string' || query.length === 0) {
+    return 'query is required';
+  }
+  if (!Number.isInteger(k) || k < 1 || k > 20) {
+    return 'k must be an integer between 1 and 20';
+  }
+  if (!Number.isInteger(maxTokens) || maxTokens < 1 || maxTokens > 4096) {
+    return 'maxTokens must be an integer between 1 and 4096';
+  }
+  if (typeof minScore !== 'number' || minScore < 0 || minScore > 1) {
+    return 'minScore must be a number between 0 and 1';
+  }
+  if (
+    !promptTemplate.includes('{{context}}')
+    || !promptTemplate.includes('{{question}}')
+  ) {
+    return 'promptTemplate must contain the {{context}} and {{question}} placeholders';
+  }
+
+  return undefined;
+};
+
+/**
+ * Formats a server-sent event.
+ *
+ * @param event - The name of the event
+ * @param data - The data of the event, serialized as JSON
+ */
+const formatServerSentEvent = (event: string, data: unknown): string =>
+  `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+
+/**
+ * Builds the prompt by replacing the `{{context}}` placeholder of the template with the retrieved movies,
+ * each one introduced by its `_id` so that the model can cite it, and `{{question}}` with the question.
+ *
+ * @param template - The prompt template
+ * @param question - The question of the caller
+ * @param documents - The retrieved movies
+ */
+const buildPrompt = (
+  template: string,
+  question: string,
+  documents: WithId<Document>[],
+): string => {
+  const context = documents
+    .map(({ _id, title, plot }) => `[${_id}] ${title}: ${plot}`)
+    .join('\n');
+
+  // Replacer functions so that `$` sequences in the plots or the question are not interpreted as patterns
+  return template
+    .replaceAll('{{context}}', () => context)
+    .replaceAll('{{question}}', () => question);
+};
+
+/**
+ * Returns the sources cited in the answer, in order of appearance. Ids that don't belong
+ * to a retrieved movie are ignored so that the citations can't point to made-up documents.
+ *
+ * @param answer - The generated answer
+ * @param sources - The retrieved movies
+ */
+const extractCitations = (answer: string, sources: Source[]): Source[] => {
+  const cited = new Set(
+    [...answer.matchAll(/\[([0-9a-f]{24})\]/g)].map(([, id]) => id),
+  );
+
+  return sources.filter(({ _id }) => cited.has(_id));
+};
+
+class LambdaFunction implements LambdaInterface {
+  /**
+   * Retrieves the `k` movies closest to the question from the active embedding version of the default source collection.
+   *
+   * @param question - The question of the caller
+   * @param options - The number of movies to retrieve and the pre-filters to apply
+   */
+  @tracer.captureMethod({
+    subSegmentName: '### retrieve',
+    captureResponse: false,
+  })
+  async retrieve(
+    question: string,
+    options: { k: number; filters?: SearchFilters },
+  ): Promise<WithId<Document>[]> {
+    const { k, filters } = options;
+    const source = getDefaultSource();
+    const { active: version } = await getEmbeddingState(source);
+    const { embedding } = await getQueryEmbedding(
+      question,
+      getEmbeddingProvider(version.embedding),
+    );
+
+    return vectorSearch(embedding, {
+      source,
+      version,
+      limit: k,
+      numCandidates: Math.max(VECTOR_SEARCH_DEFAULT_NUM_CANDIDATES, k),
+      filters,
+    });
+  }
+
+  /**
+   * Retrieves the movies and keeps those relevant enough to be used as context, then builds the prompt.
+   * The prompt is `undefined` when no movie is relevant enough, in which case the model must not be called.
+   *
+   * @param request - The parsed request
+   */
+  async retrieveSources(
+    request: AskRequest,
+  ): Promise<{ sources: Source[]; prompt?: string }> {
+    const { query, k, filters, minScore, promptTemplate } = request;
+    let documents: WithId<Document>[];
+    try {
+      documents = await this.retrieve(query, { k, filters });
+    } catch (error) {
+      throw new Error('Unable to retrieve movies', { cause: error });
+    }
+
+    // Only the movies relevant enough are used as context
+    const relevant = documents.filter(({ score }) => score >= minScore);
+    const sources: Source[] = relevant.map(({ _id, title, score }) => ({
+      _id: _id.toString(),
+      title,
+      score,
+    }));
+    if (relevant.length === 0) {
+      logger.info('No movie is relevant enough to answer', {
+        topScore: documents[0]?.score,
+        minScore,
+      });
+
+      return { sources };
+    }
+
+    return { sources, prompt: buildPrompt(promptTemplate, query, relevant) };
+  }
+
+  /**
+   * Returns the text model set in the `ANSWER_MODEL_ID` environment variable.
+   */
+  getAnswerModel(): TextModel {
+    return getTextModel(getStringFromEnv('ANSWER_MODEL_ID'));
+  }
+
+  /**
+   * Generates the answer with the text model set in the `ANSWER_MODEL_ID` environment variable.
+   *
+   * @param prompt - The grounded prompt
+   * @param maxTokens - The maximum number of tokens to generate
+   */
+  @tracer.captureMethod({
+    subSegmentName: '### generateAnswer',
+    captureResponse: false,
+  })
+  async generateAnswer(
+    prompt: string,
+    maxTokens: number,
+  ): Promise<GeneratedText & { model: string }> {
+    const model = this.getAnswerModel();
+    const generated = await model.generate(prompt, { maxTokens });
+    logger.info('Answer generated', {
+      model: model.modelId,
+      usage: generated.usage,
+      stopReason: generated.stopReason,
+    });
+
+    return { ...generated, model: model.modelId };
+  }
+
+  /**
+   * Receives a request from API Gateway, retrieves the movies closest to the question, then asks a Bedrock
+   * text model to answer the question using only those movies. The citations of the answer are the `_id`s
+   * of the retrieved movies that the model used.
+   *
+   * When no movie scores at least `minScore` the model is not called and the answer is `null`,
+   * so that the model is never asked to answer without relevant context.
+   *
+   * The `promptTemplate` must contain the `{{context}}` and `{{question}}` placeholders.
+   * @example
+   * ```json
+   * {
+   *   "query": "Which movies are about a heist in Las Vegas?",
+   *   "k": 5,
+   *   "maxTokens": 300,
+   *   "filters": { "year": { "gte": 1990 } }
+   * }
+   * ```
+   *
+   * @param event - The API Gateway request event
+   * @param _context - The Lambda context (unused)
+   */
+  @logger.injectLambdaContext({ logEvent: true })
+  @tracer.captureLambdaHandler({ captureResponse: false })
+  async handler(
+    event: APIGatewayEvent,
+    _context: Context,
+  ): Promise<{ statusCode: number; body: string }> {
+    try {
+      const request = parseAskRequest(event.body);
+      logger.debug('question', { ...request });
+
+      const error = getAskRequestError(request);
+      if (error) {
+        return { statusCode: 400, body: JSON.stringify({ message: error }) };
+      }
+
+      const { sources, prompt } = await this.retrieveSources(request);
+      if (!prompt) {
+        return {
+          statusCode: 200,
+          body: JSON.stringify({
+            answer: null,
+            noAnswer: true,
+            citations: [],
+            sources,
+          }),
+        };
+      }
+
+      let generated: GeneratedText & { model: string };
+      try {
+        generated = await this.generateAnswer(prompt, request.maxTokens);
+      } catch (error) {
+        throw new Error('Unable to generate answer', { cause: error });
+      }
+
+      return {
+        statusCode: 200,
+        body: JSON.stringify({
+          answer: generated.text,
+          noAnswer: false,
+          citations: extractCitations(generated.text, sources),
+          sources,
+          model: generated.model,
+          usage: generated.usage,
+        }),
+      };
+    } catch (error) {
+      logger.error('Unable to answer the question', error as Error);
+
+      return {
+        statusCode: 500,
+        body: JSON.stringify({
+          message:
+            'An error occurred while answering the question, please try again later.',
+        }),
+      };
+    }
+  }
+
+  /**
+   * Receives a request from the function URL and answers the question like `handler`, but streams the response
+   * as server-sent events so that the answer can be displayed as it's generated:
+   * - a `sources` event with the movies used as context
+   * - a `chunk` event for each chunk of text of the answer
+   * - a final `done` event with the citations, the model and the token usage, or `noAnswer` set to `true`
+   * - an `error` event if something goes wrong once the stream has started
+   *
+   * The decorators of the other handlers don't support streaming, the Lambda context and the segment are handled here.
+   *
+   * @param event - The function URL request event
+   * @param responseStream - The stream the response is written to
+   * @param context - The Lambda context
+   */
+  async streamHandler(
+    event: LambdaFunctionURLEvent,
+    responseStream: Writable,
+    context: Context,
+  ): Promise<void> {
+    logger.addContext(context);
+    logger.logEventIfEnabled(event, true);
+    const handlerSegment = tracer.getSegment();
+    const subsegment = handlerSegment?.addNewSubsegment(
+      `## ${process.env._HANDLER}`,
+    );
+    subsegment && tracer.setSegment(subsegment);
+    tracer.annotateColdStart();
+    tracer.addServiceNameAnnotation();
+
+    let stream = responseStream;
+    try {
+      const body = event.isBase64Encoded && event.body
+        ? Buffer.from(event.body, 'base64').toString()
+        : event.body;
+      const request = parseAskRequest(body);
+      logger.debug('question', { ...request });
+
+      const error = getAskRequestError(request);
+      if (error) {
+        stream = awslambda.HttpResponseStream.from(responseStream, {
+          statusCode: 400,
+          headers: { 'Content-Type': 'application/json' },
+        });
+        stream.write(JSON.stringify({ message: error }));
+
+        return;
+      }
+
+      stream = awslambda.HttpResponseStream.from(responseStream, {
+        statusCode: 200,
+        headers: {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+        },
+      });
+      const { sources, prompt } = await this.retrieveSources(request);
+      stream.write(formatServerSentEvent('sources', { sources }));
+      if (!prompt) {
+        stream.write(
+          formatServerSentEvent('done', { noAnswer: true, citations: [] }),
+        );
+
+        return;
+      }
+
+      // Send each chunk as soon as it's generated, the citations can only be extracted from the whole answer
+      const model = this.getAnswerModel();
+      let answer = '';
+      for await (
+        const chunk of model.stream(prompt, { maxTokens: request.maxTokens })
+      ) {
+        if (chunk.type === 'text') {
+          answer += chunk.text;
+          stream.write(formatServerSentEvent('chunk', { text: chunk.text }));
+        } else {
+          logger.info('Answer generated', {
+            model: model.modelId,
+            usage: chunk.usage,
+            stopReason: chunk.stopReason,
+          });
+          stream.write(
+            formatServerSentEvent('done', {
+              noAnswer: false,
+              citations: extractCitations(answer, sources),
+              model: model.modelId,
+              usage: chunk.usage,
+            }),
+          );
+        }
+      }
+    } catch (error) {
+      logger.error('Unable to answer the question', error as Error);
+      subsegment?.addError(error as Error);
+      // The status can only be set before the stream has started
+      if (stream === responseStream) {
+        stream = awslambda.HttpResponseStream.from(responseStream, {
+          statusCode: 500,
+          headers: { 'Content-Type': 'text/event-stream' },
+        });
+      }
+      stream.write(
+        formatServerSentEvent('error', {
+          message:
+            'An error occurred while answering the question, please try again later.',
+        }),
+      );
+    } finally {
+      stream.end();
+      subsegment?.close();
+      handlerSegment && tracer.setSegment(handlerSegment);
+    }
+  }
+}
+
+const lambda = new LambdaFunction();
+export const handler = lambda.handler.bind(lambda);
+export const streamHandler = awslambda.streamifyResponse(
+  lambda.streamHandler.bind(lambda),
+);
@@ -0,0 +1,325 @@
+import {
+  MONGODB_EMBEDDING_CACHE_COLLECTION_NAME,
+  MONGODB_QUERY_EMBEDDING_CACHE_COLLECTION_NAME,
+  QUERY_EMBEDDING_CACHE_TTL_SECONDS,
+  QUERY_EMBEDDING_MEMORY_CACHE_MAX_ENTRIES,
+  QUERY_EMBEDDING_MEMORY_CACHE_TTL_MS,
+} from './constants';
+import {
+  type EmbeddingInputType,
+  type EmbeddingProvider,
+  getEmbedding,
+} from './embeddings';
+import { createContentHash, getMongoCollection } from './helpers';
+import { logger, tracer } from './powertools';
+
+/**
+ * An embedding shared by all the documents with the same text, keyed by model and text hash.
+ */
+type CachedEmbedding = {
+  _id: string;
+  model: string;
+  dimensions: number;
+  inputType: EmbeddingInputType;
+  /**
+   * SHA-256 hash of the normalized text, see `normalizeText`
+   */
+  hash: string;
+  embedding: number[];
+  createdAt: Date;
+};
+
+/**
+ * The embedding of a search query, keyed by model and normalized query, removed by a TTL index on `expiresAt`.
+ */
+type CachedQueryEmbedding = {
+  _id: string;
+  model: string;
+  dimensions: number;
+  /**
+   * The normalized query, see `normalizeQuery`
+   */
+  query: string;
+  embedding: number[];
+  expiresAt: Date;
+};
+
+/**
+ * Which tier of the query embedding cache returned the embedding, `miss` when it was created by the model.
+ */
+type QueryEmbeddingCacheResult = 'memory' | 'shared' | 'miss';
+
+/**
+ * Least recently used cache that keeps at most `maxEntries` entries, each one for at most `ttlMs`.
+ * A `Map` iterates in insertion order, so entries are moved to the end when read and evicted from the start.
+ */
+class LruCache<T> {
+  readonly #entries = new Map<string, { value: T; expiresAt: number }>();
+  readonly #maxEntries: number;
+  readonly #ttlMs: number;
+
+  public constructor(options: { maxEntries: number; ttlMs: number }) {
+    this.#maxEntries = options.maxEntries;
+    this.#ttlMs = options.ttlMs;
+  }
+
+  public get(key: string): T | undefined {
+    const entry = this.#entries.get(key);
+    if (!entry) return;
+    this.#entries.delete(key);
+    if (entry.expiresAt <= Date.now()) return;
+    this.#entries.set(key, entry);
+
+    return entry.value;
+  }
+
+  public set(key: string, value: T): void {
+    this.#entries.delete(key);
+    this.#entries.set(key, { value, expiresAt: Date.now() + this.#ttlMs });
+    if (this.#entries.size > this.#maxEntries) {
+      this.#entries.delete(this.#entries.keys().next().value);
+    }
+  }
+
+  public clear(): void {
+    this.#entries.clear();
+  }
+}
+
+/**
+ * Normalizes a text before it's hashed and embedded, so that texts that only differ
+ * in their Unicode representation or whitespace share the same embedding.
+ *
+ * @param text - The text to normalize
+ */
+const normalizeText = (text: string): string =>
+  text.normalize('NFC').replace(/\s+/g, ' ').trim();
+
+/**
+ * Returns the SHA-256 hash of the normalized text.
+ *
+ * @param text - The text to hash
+ */
+const getTextHash = (text: string): string =>
+  createContentHash(normalizeText(text));
+
+/**
+ * Returns the key of an embedding in the cache. Besides the model id, the dimensions and the input type
+ * are part of the key since the same model produces different vectors for each of them.
+ *
+ * @param provider - The embedding provider
+ * @param inputType - Whether the text is a search query or a document
+ * @param hash - The hash of the normalized text
+ */
+const getCacheKey = (
+  provider: EmbeddingProvider,
+  inputType: EmbeddingInputType,
+  hash: string,
+): string => [provider.modelId, provider.dimensions, inputType, hash].join(':');
+
+/**
+ * Returns the embedding of the normalized text from the shared cache, or creates it with the provider
+ * and adds it to the cache when it's not there yet.
+ *
+ * @param text - The text to embed
+ * @param inputType - Whether the text is a search query or a document
+ * @param provider - The embedding provider
+ */
+const getOrCreateEmbedding = async (
+  text: string,
+  inputType: EmbeddingInputType,
+  provider: EmbeddingProvider,
+): Promise<{ embedding: number[]; hash: string; cached: boolean }> => {
+  const hash = getTextHash(text);
+  const _id = getCacheKey(provider, inputType, hash);
+  const collection = await getMongoCollection<CachedEmbedding>(
+    MONGODB_EMBEDDING_CACHE_COLLECTION_NAME,
+  );
+
+  const cached = await collection.findOne({ _id });
+  if (cached) {
+    logger.debug('Embedding cache hit', { key: _id });
+
+    return { embedding: cached.embedding, hash, cached: true };
+  }
+
+  const embedding = await getEmbedding(
+    normalizeText(text),
+    inputType,
+    provider,
+  );
+  // Another invocation may have cached the same text in the meantime, the first one wins
+  await collection.updateOne(
+    { _id },
+    {
+      $setOnInsert: {
+        model: provider.modelId,
+        dimensions: provider.dimensions,
+        inputType,
+        hash,
+        embedding,
+        createdAt: new Date(),
+      },
+    },
+    { upsert: true },
+  );
+  logger.debug('Embedding cache miss', { key: _id });
+
+  return { embedding, hash, cached: false };
+};
+
+/**
+ * Normalizes a search query like `normalizeText`, and lowercases it so that popular queries share the same cache entry.
+ * It's only used to build the cache key, the query is embedded with its case since it matters for proper nouns,
+ * titles and acronyms.
+ *
+ * @param query - The query to normalize
+ */
+const normalizeQuery = (query: string): string =>
+  normalizeText(query).toLowerCase();
+
+/**
+ * First tier of the query embedding cache, it survives warm invocations of the Lambda function.
+ * Entries expire after a few minutes so that a flush of the shared tier reaches all the warm functions.
+ */
+const queryEmbeddingMemoryCache = new LruCache<number[]>({
+  maxEntries: QUERY_EMBEDDING_MEMORY_CACHE_MAX_ENTRIES,
+  ttlMs: QUERY_EMBEDDING_MEMORY_CACHE_TTL_MS,
+});
+
+let queryEmbeddingIndexCreated: Promise<string> | undefined;
+/**
+ * Returns the collection of the shared tier of the query embedding cache, creating the TTL index once per container.
+ */
+const getQueryEmbeddingCollection = async () => {
+  const collection = await getMongoCollection<CachedQueryEmbedding>(
+    MONGODB_QUERY_EMBEDDING_CACHE_COLLECTION_NAME,
+  );
+  queryEmbeddingIndexCreated ??= collection
+    .createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+    .catch((error) => {
+      // Try again on the next call rather than caching the failure
+      queryEmbeddingIndexCreated = undefined;
+      throw error;
+    });
+  await queryEmbeddingIndexCreated;
+
+  return collection;
+};
+
+/**
+ * Returns the query embedding stored under the given key in the two-tier cache, first the in-process
+ * LRU cache then the shared MongoDB collection, or `undefined` when it's in neither of them.
+ *
+ * @param key - The cache key of the query embedding
+ */
+const getCachedQueryEmbedding = async (
+  key: string,
+): Promise<
+  { embedding: number[]; cache: 'memory' | 'shared' } | undefined
+> => {
+  const inMemory = queryEmbeddingMemoryCache.get(key);
+  if (inMemory) return { embedding: inMemory, cache: 'memory' };
+
+  const collection = await getQueryEmbeddingCollection();
+  const shared = await collection.findOne({
+    _id: key,
+    expiresAt: { $gt: new Date() },
+  });
+  if (!shared) return;
+  queryEmbeddingMemoryCache.set(key, shared.embedding);
+
+  return { embedding: shared.embedding, cache: 'shared' };
+};
+
+/**
+ * Returns the embedding of a search query from the two-tier cache: first the in-process LRU cache,
+ * then the shared MongoDB collection. On a miss the query is embedded by the provider and added to both tiers.
+ * The cache key is built from the lowercased query, see `normalizeQuery`, while the query is embedded with its case.
+ * The result is logged and added to the current segment as the `queryEmbeddingCache` annotation.
+ * The cache key is returned as well, so that the embedding can be read again without the query.
+ *
+ * @param query - The search query
+ * @param provider - The embedding provider
+ */
+const getQueryEmbedding = async (
+  query: string,
+  provider: EmbeddingProvider,
+): Promise<
+  { embedding: number[]; cache: QueryEmbeddingCacheResult; key: string }
+> => {
+  const normalizedQuery = normalizeQuery(query);
+  const _id = getCacheKey(
+    provider,
+    'search_query',
+    createContentHash(normalizedQuery),
+  );
+  const record = (cache: QueryEmbeddingCacheResult) => {
+    tracer.putAnnotation('queryEmbeddingCache', cache);
+    logger.info('Query embedding cache', { cache, key: _id });
+  };
+
+  const cached = await getCachedQueryEmbedding(_id);
+  if (cached) {
+    record(cached.cache);
+
+    return { ...cached, key: _id };
+  }
+
+  const embedding = await getEmbedding(
+    normalizeText(query),
+    'search_query',
+    provider,
+  );
+  queryEmbeddingMemoryCache.set(_id, embedding);
+  const collection = await getQueryEmbeddingCollection();
+  await collection.updateOne(
+    { _id },
+    {
+      $set: {
+        model: provider.modelId,
+        dimensions: provider.dimensions,
+        query: normalizedQuery,
+        embedding,
+        expiresAt: new Date(
+          Date.now() + QUERY_EMBEDDING_CACHE_TTL_SECONDS * 1000,
+        ),
+      },
+    },
+    { upsert: true },
+  );
+  record('miss');
+
+  return { embedding, cache: 'miss', key: _id };
+};
+
+/**
+ * Removes the query embeddings of the given model, or all of them, from the shared tier of the cache
+ * and from the in-process tier of the current container. The other warm containers drop their entries
+ * once they expire.
+ *
+ * @param model - The id of the model whose embeddings are removed, all the embeddings when not set
+ */
+const flushQueryEmbeddingCache = async (model?: string): Promise<number> => {
+  const collection = await getQueryEmbeddingCollection();
+  const { deletedCount } = await collection.deleteMany(model ? { model } : {});
+  queryEmbeddingMemoryCache.clear();
+  logger.info('Query embedding cache flushed', { model, deletedCount });
+
+  return deletedCount;
+};
+
+export {
+  flushQueryEmbeddingCache,
+  getCachedQueryEmbedding,
+  getOrCreateEmbedding,
+  getQueryEmbedding,
+  getTextHash,
+  normalizeQuery,
+  normalizeText,
+};
+export type {
+  CachedEmbedding,
+  CachedQueryEmbedding,
+  QueryEmbeddingCacheResult,
+};
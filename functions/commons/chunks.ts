@@ -0,0 +1,253 @@
+import type { AnyBulkWriteOperation, Document, Filter } from 'mongodb';
+import { EMBEDDING_CHARS_PER_TOKEN } from './constants';
+import { getMongoCollection } from './helpers';
+import { logger } from './powertools';
+import type { SourceCollection } from './sources';
+
+/**
+ * Configuration of the chunking mode, where the text of each document is also split into overlapping passages
+ * that are embedded separately, so that long documents can be retrieved by their best matching passage.
+ */
+type ChunkingConfig = {
+  /**
+   * How the text is split:
+   * - `sentence` groups `size` sentences per passage, consecutive passages share `overlap` sentences
+   * - `token` cuts windows of `size` tokens at word boundaries, consecutive passages share about `overlap` tokens
+   */
+  strategy: 'sentence' | 'token';
+  size: number;
+  overlap: number;
+};
+
+/**
+ * A passage of a document, stored in the chunks collection of its source along with its embedding for each version,
+ * using the same fields as the embeddings of the documents (i.e. `plot_embedding` and `plot_embedding_meta`).
+ */
+type Chunk = {
+  /**
+   * `_id` of the document the passage belongs to
+   */
+  parentId: unknown;
+  /**
+   * Position of the passage in the document, starting at 0
+   */
+  index: number;
+  text: string;
+  [field: string]: unknown;
+};
+
+let chunkingConfig: ChunkingConfig | null | undefined;
+/**
+ * Returns the chunking configuration set in the `EMBEDDING_CHUNKING` environment variable by the stack,
+ * or `null` when the chunking mode is disabled.
+ */
+const getChunkingConfig = (): ChunkingConfig | null => {
+  chunkingConfig ??= process.env.EMBEDDING_CHUNKING
+    ? JSON.parse(process.env.EMBEDDING_CHUNKING)
+    : null;
+
+  return chunkingConfig ?? null;
+};
+
+/**
+ * Returns a string that identifies the chunking configuration, stored next to each embedding
+ * so that a change to the configuration can trigger the chunking of the documents again.
+ *
+ * @param config - The chunking configuration
+ */
+const getChunkingSignature = (config: ChunkingConfig): string =>
+  `${config.strategy}:${config.size}:${config.overlap}`;
+
+/**
+ * Groups `size` sentences per passage, consecutive passages share `overlap` sentences.
+ *
+ * @param text - The text to split
+ * @param size - The number of sentences per passage
+ * @param overlap - The number of sentences shared by consecutive passages
+ */
+const splitBySentence = (
+  text: string,
+  size: number,
+  overlap: number,
+): string[] => {
+  const segmenter = new Intl.Segmenter('en', { granularity: 'sentence' });
+  const sentences = [...segmenter.segment(text)]
+    .map(({ segment }) => segment.trim())
+    .filter((sentence) => sentence.length > 0);
+  const passages: string[] = [];
+  const step = Math.max(size - overlap, 1);
+  for (let start = 0; start < sentences.length; start += step) {
+    passages.push(sentences.slice(start, start + size).join(' '));
+    if (start + size >= sentences.length) break;
+  }
+
+  return passages;
+};
+
+/**
+ * Cuts windows of about `size` tokens at word boundaries, consecutive passages share about `overlap` tokens.
+ * The tokens are estimated from the number of characters, like the truncation of the embedding input.
+ *
+ * @param text - The text to split
+ * @param size - The number of tokens per passage
+ * @param overlap - The number of tokens shared by consecutive passages
+ */
+const splitByToken = (
+  text: string,
+  size: number,
+  overlap: number,
+): string[] => {
+  const words = text.split(/\s+/).filter((word) => word.length > 0);
+  const maxChars = size * EMBEDDING_CHARS_PER_TOKEN;
+  const overlapChars = overlap * EMBEDDING_CHARS_PER_TOKEN;
+  const passages: string[] = [];
+  let start = 0;
+  while (start < words.length) {
+    // Always take at least one word so that a word longer than the window doesn't stall the split
+    let end = start + 1;
+    let length = words[start].length;
+    while (end < words.length && length + 1 + words[end].length <= maxChars) {
+      length += 1 + words[end].length;
+      end++;
+    }
+    passages.push(words.slice(start, end).join(' '));
+    if (end === words.length) break;
+
+    // Step back from the end of the window to share about `overlap` tokens with the next passage
+    let next = end;
+    let shared = 0;
+    while (
+      next - 1 > start && shared + words[next - 1].length <= overlapChars
+    ) {
+      shared += words[next - 1].length + 1;
+      next--;
+    }
+    start = next;
+  }
+
+  return passages;
+};
+
+/**
+ * Splits the text into overlapping passages according to the chunking configuration.
+ *
+ * @param text - The text to split
+ * @param config - The chunking configuration
+ */
+const splitIntoPassages = (text: string, config: ChunkingConfig): string[] => {
+  const { strategy, size, overlap } = config;
+
+  return strategy === 'sentence'
+    ? splitBySentence(text, size, overlap)
+    : splitByToken(text, size, overlap);
+};
+
+const chunksIndexesCreated = new Map<string, Promise<string>>();
+/**
+ * Returns the chunks collection of the source, which is in the same database as the source so that the passages
+ * can be joined with their documents. The index on the parent and the position of the passages is created once per container.
+ *
+ * @param source - The source collection
+ */
+const getChunksCollection = async (source: SourceCollection) => {
+  const collection = await getMongoCollection<Chunk>(
+    source.chunks,
+    source.database,
+  );
+  const namespace = `${source.database}.${source.chunks}`;
+  let indexCreated = chunksIndexesCreated.get(namespace);
+  if (!indexCreated) {
+    indexCreated = collection
+      .createIndex({ parentId: 1, index: 1 }, { unique: true })
+      .catch((error) => {
+        // Try again on the next call rather than caching the failure
+        chunksIndexesCreated.delete(namespace);
+        throw error;
+      });
+    chunksIndexesCreated.set(namespace, indexCreated);
+  }
+  await indexCreated;
+
+  return collection;
+};
+
+/**
+ * Writes the passages of a document along with their embedding fields, then removes the passages left over
+ * from a previous, longer, version of the document. Only the given fields are written so that the embeddings
+ * of the other versions are left untouched.
+ *
+ * @param source - The source collection of the document
+ * @param parentId - The `_id` of the document
+ * @param passages - The text and the embedding fields of each passage, keyed by their dot-separated path
+ */
+const writeChunks = async (
+  source: SourceCollection,
+  parentId: unknown,
+  passages: { text: string; fields: Record<string, unknown> }[],
+): Promise<void> => {
+  const collection = await getChunksCollection(source);
+  const operations: AnyBulkWriteOperation<Chunk>[] = passages.map((
+    { text, fields },
+    index,
+  ) => ({
+    updateOne: {
+      filter: { parentId, index },
+      update: { $set: { text, ...fields } },
+      upsert: true,
+    },
+  }));
+  operations.push({
+    deleteMany: { filter: { parentId, index: { $gte: passages.length } } },
+  });
+  const response = await collection.bulkWrite(operations, { ordered: false });
+
+  logger.debug('Chunks written', {
+    upserted: response.upsertedCount,
+    modified: response.modifiedCount,
+    deleted: response.deletedCount,
+  });
+};
+
+/**
+ * Removes the passages of a document, i.e. when it's deleted or has no text to embed anymore.
+ *
+ * @param source - The source collection of the document
+ * @param parentId - The `_id` of the document
+ */
+const deleteChunks = async (
+  source: SourceCollection,
+  parentId: unknown,
+): Promise<number> => {
+  const collection = await getChunksCollection(source);
+  const { deletedCount } = await collection.deleteMany({ parentId });
+
+  return deletedCount;
+};
+
+/**
+ * Returns the filter that selects the documents whose embedding at the given path was created with another
+ * chunking configuration, or `undefined` when the chunking mode is disabled.
+ *
+ * @param path - The path of the embedding field
+ */
+const getOutdatedChunksFilter = (
+  path: string,
+): Filter<Document> | undefined => {
+  const config = getChunkingConfig();
+  if (!config) return;
+
+  return {
+    [path]: { $exists: true },
+    [`${path}_meta.chunking`]: { $ne: getChunkingSignature(config) },
+  };
+};
+
+export {
+  deleteChunks,
+  getChunkingConfig,
+  getChunkingSignature,
+  getOutdatedChunksFilter,
+  splitIntoPassages,
+  writeChunks,
+};
+export type { Chunk, ChunkingConfig };
@@ -1,11 +1,102 @@
 const MONGODB_DATABASE_NAME = 'sample_mflix';
 const MONGODB_COLLECTION_NAME = 'movies';
 const MONGODB_SEARCH_INDEX_NAME = 'default';
-const BEDROCK_MODEL_ID = 'amazon.titan-embed-text-v1';
+const MONGODB_VECTOR_SEARCH_INDEX_NAME = 'vector_index';
+const MONGODB_EMBEDDING_VERSIONS_COLLECTION_NAME = 'embedding_versions';
+const MONGODB_BACKFILL_JOBS_COLLECTION_NAME = 'backfill_jobs';
+const MONGODB_IDEMPOTENCY_COLLECTION_NAME = 'idempotency';
+const MONGODB_EMBEDDING_CACHE_COLLECTION_NAME = 'embedding_cache';
+const MONGODB_QUERY_EMBEDDING_CACHE_COLLECTION_NAME = 'query_embedding_cache';
+const MONGODB_CHUNKS_COLLECTION_NAME = 'chunks';
+const EMBEDDING_DEFAULT_TEMPLATE = { version: '1', template: '{plot}' };
+// Conservative estimate, English text is closer to 4 characters per token
+const EMBEDDING_CHARS_PER_TOKEN = 3;
+const VECTOR_SEARCH_DEFAULT_LIMIT = 3;
+const VECTOR_SEARCH_DEFAULT_NUM_CANDIDATES = 100;
+// Upper bound of `$vectorSearch`, also enforced by the request models of the API
+const VECTOR_SEARCH_MAX_NUM_CANDIDATES = 10_000;
+const HYBRID_SEARCH_RANK_WINDOW_FACTOR = 4;
+const MMR_CANDIDATES_FACTOR = 4;
+const MMR_DEFAULT_LAMBDA = 0.5;
+const RERANK_CANDIDATES_FACTOR = 4;
+// Bounds the calls of the LLM reranker, which rates each candidate separately, to stay within the Bedrock quotas
+const RERANK_LLM_CONCURRENCY = 8;
+const EXPANSION_DEFAULT_VARIANTS = 3;
+const EXPANSION_RANK_WINDOW_FACTOR = 4;
+const FACET_MAX_BUCKETS = 20;
+const SEARCH_BATCH_MAX_QUERIES = 100;
+const SEARCH_BATCH_EMBEDDING_CONCURRENCY = 8;
+const CHUNK_EMBEDDING_CONCURRENCY = 4;
+const PASSAGE_SEARCH_CANDIDATES_FACTOR = 10;
+const EMBEDDING_STATE_CACHE_TTL_MS = 30_000;
+const BACKFILL_DEFAULT_CHUNK_SIZE = 50;
+const EVENT_QUEUE_MAX_RECEIVE_COUNT = 3;
+// Fails fast when EventBridge can't be reached instead of waiting for the timeout of the function
+const EVENTBRIDGE_REQUEST_TIMEOUT_MS = 5_000;
+const ASK_DEFAULT_K = 3;
+const ASK_DEFAULT_MAX_TOKENS = 512;
+const ASK_DEFAULT_MIN_SCORE = 0.7;
+const ASK_DEFAULT_PROMPT_TEMPLATE = [
+  'You are a movie expert. Answer the question using only the movies below.',
+  'Cite each movie you use with its id in square brackets, i.e. [573a1390f29313caabcd42e8].',
+  "If the movies don't contain the answer, say that you don't know.",
+  '',
+  'Movies:',
+  '{{context}}',
+  '',
+  'Question: {{question}}',
+].join('\n');
+const IDEMPOTENCY_TTL_SECONDS = 3600;
+const QUERY_EMBEDDING_CACHE_TTL_SECONDS = 7 * 24 * 3600;
+const QUERY_EMBEDDING_MEMORY_CACHE_MAX_ENTRIES = 500;
+const QUERY_EMBEDDING_MEMORY_CACHE_TTL_MS = 5 * 60_000;
+// Name of the embedding of the source (i.e. `plot_embedding`) among its embedding fields
+const EMBEDDING_DEFAULT_FIELD_NAME = 'default';
+const MULTI_FIELD_SEARCH_CANDIDATES_FACTOR = 4;
+// Longer than the timeout of the embed function so that a crashed attempt doesn't block retries for long
+const IDEMPOTENCY_IN_PROGRESS_TTL_SECONDS = 180;
 
 export {
-  BEDROCK_MODEL_ID,
+  ASK_DEFAULT_K,
+  ASK_DEFAULT_MAX_TOKENS,
+  ASK_DEFAULT_MIN_SCORE,
+  ASK_DEFAULT_PROMPT_TEMPLATE,
+  BACKFILL_DEFAULT_CHUNK_SIZE,
+  CHUNK_EMBEDDING_CONCURRENCY,
+  EMBEDDING_CHARS_PER_TOKEN,
+  EMBEDDING_DEFAULT_FIELD_NAME,
+  EMBEDDING_DEFAULT_TEMPLATE,
+  EMBEDDING_STATE_CACHE_TTL_MS,
+  EVENT_QUEUE_MAX_RECEIVE_COUNT,
+  EVENTBRIDGE_REQUEST_TIMEOUT_MS,
+  EXPANSION_DEFAULT_VARIANTS,
+  EXPANSION_RANK_WINDOW_FACTOR,
+  FACET_MAX_BUCKETS,
+  HYBRID_SEARCH_RANK_WINDOW_FACTOR,
+  IDEMPOTENCY_IN_PROGRESS_TTL_SECONDS,
+  IDEMPOTENCY_TTL_SECONDS,
+  MMR_CANDIDATES_FACTOR,
+  MMR_DEFAULT_LAMBDA,
+  MONGODB_BACKFILL_JOBS_COLLECTION_NAME,
+  MONGODB_CHUNKS_COLLECTION_NAME,
   MONGODB_COLLECTION_NAME,
   MONGODB_DATABASE_NAME,
+  MONGODB_EMBEDDING_CACHE_COLLECTION_NAME,
+  MONGODB_EMBEDDING_VERSIONS_COLLECTION_NAME,
+  MONGODB_IDEMPOTENCY_COLLECTION_NAME,
+  MONGODB_QUERY_EMBEDDING_CACHE_COLLECTION_NAME,
   MONGODB_SEARCH_INDEX_NAME,
+  MONGODB_VECTOR_SEARCH_INDEX_NAME,
+  MULTI_FIELD_SEARCH_CANDIDATES_FACTOR,
+  PASSAGE_SEARCH_CANDIDATES_FACTOR,
+  QUERY_EMBEDDING_CACHE_TTL_SECONDS,
+  QUERY_EMBEDDING_MEMORY_CACHE_MAX_ENTRIES,
+  QUERY_EMBEDDING_MEMORY_CACHE_TTL_MS,
+  RERANK_CANDIDATES_FACTOR,
+  RERANK_LLM_CONCURRENCY,
+  SEARCH_BATCH_EMBEDDING_CONCURRENCY,
+  SEARCH_BATCH_MAX_QUERIES,
+  VECTOR_SEARCH_DEFAULT_LIMIT,
+  VECTOR_SEARCH_DEFAULT_NUM_CANDIDATES,
+  VECTOR_SEARCH_MAX_NUM_CANDIDATES,
 };
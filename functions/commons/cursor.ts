@@ -0,0 +1,89 @@
+import { BSON } from 'mongodb';
+import { VECTOR_SEARCH_MAX_NUM_CANDIDATES } from './constants';
+import { isSearchFilters, type SearchFilters } from './filters';
+
+/**
+ * State of a paginated vector search, encoded in the opaque cursor returned to the caller
+ * so that the next page can be fetched without embedding the query again.
+ */
+type SearchCursor = {
+  /**
+   * Cache key of the query embedding, see `getQueryEmbedding`
+   */
+  key: string;
+  /**
+   * Name of the source collection that was searched, the cursors created before several source collections
+   * were supported have none and search the default source
+   */
+  collection?: string;
+  /**
+   * Name of the embedding version that was searched, the cursor is invalid once another version is active
+   */
+  version: string;
+  /**
+   * Number of candidates considered by the vector search
+   */
+  numCandidates: number;
+  /**
+   * Pre-filters applied by the vector search
+   */
+  filters?: SearchFilters;
+  /**
+   * Number of results returned by the previous pages
+   */
+  offset: number;
+  /**
+   * Score and `_id` of the last result of the previous page, the `_id` keeps its BSON type (i.e. an `ObjectId`,
+   * a string or a number) so that it can be compared as-is with the `_id` of the other results
+   */
+  last: { score: number; id: unknown };
+};
+
+/**
+ * Encodes the state of a paginated search into an opaque URL-safe string, as Extended JSON so that the BSON type
+ * of the `_id` of the last result survives the round trip.
+ *
+ * @param cursor - The state of the search
+ */
+const encodeCursor = (cursor: SearchCursor): string =>
+  Buffer.from(BSON.EJSON.stringify(cursor)).toString('base64url');
+
+/**
+ * Decodes a cursor returned by `encodeCursor`, throws when it's malformed. The cursor isn't signed, so its
+ * `numCandidates` and `filters` are held to the same limits as the ones of the request.
+ *
+ * @param value - The opaque cursor
+ */
+const decodeCursor = (value: string): SearchCursor => {
+  let cursor: SearchCursor;
+  try {
+    cursor = BSON.EJSON.parse(
+      Buffer.from(value, 'base64url').toString('utf8'),
+    ) as SearchCursor;
+  } catch (error) {
+    throw new Error('Malformed cursor', { cause: error });
+  }
+  const { key, collection, version, numCandidates, offset, filters, last } =
+    cursor ?? {};
+  if (
+    typeof key !== 'string'
+    || (collection !== undefined && typeof collection !== 'string')
+    || typeof version !== 'string'
+    || !Number.isInteger(numCandidates)
+    || numCandidates < 1
+    || numCandidates > VECTOR_SEARCH_MAX_NUM_CANDIDATES
+    || (filters !== undefined && !isSearchFilters(filters))
+    || !Number.isInteger(offset)
+    || offset < 0
+    || typeof last?.score !== 'number'
+    || last.id === undefined
+    || last.id === null
+  ) {
+    throw new Error('Malformed cursor');
+  }
+
+  return cursor;
+};
+
+export { decodeCursor, encodeCursor };
+export type { SearchCursor };
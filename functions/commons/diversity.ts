@@ -0,0 +1,84 @@
+import type { Document, WithId } from 'mongodb';
+
+/**
+ * A vector search candidate along with its embedding, needed to compare it with the other candidates.
+ */
+type EmbeddedResult = WithId<Document> & { embedding: number[] };
+
+/**
+ * Returns the cosine similarity of two vectors, `0` if either of them is null.
+ *
+ * @param a - The first vector
+ * @param b - The second vector
+ */
+const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+};
+
+/**
+ * Selects `limit` results from the candidates using Maximal Marginal Relevance (MMR), so that
+ * results that are too similar to the ones already selected (i.e. sequels or remakes) are pushed down.
+ *
+ * At each step the candidate with the highest `lambda * sim(query, candidate) - (1 - lambda) * max(sim(candidate, selected))`
+ * is selected, a `lambda` of `1` keeps the original order and a `lambda` of `0` maximizes the diversity.
+ * The selected results keep their original score, their `mmrScore` is added.
+ *
+ * @see https://www.cs.cmu.edu/~jgc/publication/The_Use_MMR_Diversity_Based_LTMIR_1998.pdf
+ *
+ * @param queryEmbedding - The embedding of the query
+ * @param candidates - The candidates, along with their embedding
+ * @param options - The number of results to select and the trade-off between relevance and diversity
+ */
+const maximalMarginalRelevance = <T extends EmbeddedResult>(
+  queryEmbedding: number[],
+  candidates: T[],
+  options: { limit: number; lambda: number },
+): (T & { mmrScore: number })[] => {
+  const { limit, lambda } = options;
+  const relevance = candidates.map(({ embedding }) =>
+    cosineSimilarity(queryEmbedding, embedding)
+  );
+  // Highest similarity of each remaining candidate to the results selected so far
+  const redundancy = candidates.map(() => 0);
+  const remaining = new Set(candidates.keys());
+  const selected: (T & { mmrScore: number })[] = [];
+
+  while (selected.length < limit && remaining.size > 0) {
+    let best = -1;
+    let bestScore = -Infinity;
+    for (const index of remaining) {
+      const score = lambda * relevance[index]
+        - (1 - lambda) * redundancy[index];
+      if (score > bestScore) {
+        best = index;
+        bestScore = score;
+      }
+    }
+
+    remaining.delete(best);
+    selected.push({ ...candidates[best], mmrScore: bestScore });
+    for (const index of remaining) {
+      redundancy[index] = Math.max(
+        redundancy[index],
+        cosineSimilarity(
+          candidates[index].embedding,
+          candidates[best].embedding,
+        ),
+      );
+    }
+  }
+
+  return selected;
+};
+
+export { cosineSimilarity, maximalMarginalRelevance };
+export type { EmbeddedResult };
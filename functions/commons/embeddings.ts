@@ -0,0 +1,252 @@
+import { createHash } from 'node:crypto';
+import { invokeModel } from './helpers';
+import { logger } from './powertools';
+import { truncateToTokenBudget } from './template';
+
+/**
+ * Whether the text being embedded is a search query or a document being indexed,
+ * some models (i.e. Cohere) produce different embeddings for each.
+ */
+type EmbeddingInputType = 'search_query' | 'search_document';
+
+/**
+ * A provider that can create embeddings for a given text.
+ */
+interface EmbeddingProvider {
+  /**
+   * Id of the model that produces the embeddings, stored next to each embedding
+   */
+  readonly modelId: string;
+  /**
+   * Number of dimensions of the embeddings produced by the model
+   */
+  readonly dimensions: number;
+  /**
+   * Maximum number of input tokens accepted by the model, longer texts are truncated before being embedded
+   */
+  readonly maxInputTokens: number;
+  /**
+   * Creates an embedding for the given text.
+   *
+   * @param text - The text to embed
+   * @param inputType - Whether the text is a search query or a document
+   */
+  embed(text: string, inputType: EmbeddingInputType): Promise<number[]>;
+}
+
+/**
+ * Amazon Titan Embeddings G1 - Text, produces embeddings with 1536 dimensions.
+ */
+class TitanV1EmbeddingProvider implements EmbeddingProvider {
+  public readonly modelId = 'amazon.titan-embed-text-v1';
+  public readonly dimensions = 1536;
+  public readonly maxInputTokens = 8192;
+
+  public async embed(text: string): Promise<number[]> {
+    const { embedding } = await invokeModel<{ embedding: number[] }>(
+      this.modelId,
+      { inputText: text },
+    );
+
+    return embedding;
+  }
+}
+
+/**
+ * Amazon Titan Text Embeddings V2, produces embeddings with 256, 512 or 1024 dimensions
+ * that can optionally be normalized.
+ */
+class TitanV2EmbeddingProvider implements EmbeddingProvider {
+  public readonly modelId = 'amazon.titan-embed-text-v2:0';
+  public readonly dimensions: number;
+  public readonly maxInputTokens = 8192;
+  readonly #normalize: boolean;
+
+  public constructor(options: { dimensions?: number; normalize?: boolean }) {
+    this.dimensions = options.dimensions ?? 1024;
+    this.#normalize = options.normalize ?? true;
+  }
+
+  public async embed(text: string): Promise<number[]> {
+    const { embedding } = await invokeModel<{ embedding: number[] }>(
+      this.modelId,
+      {
+        inputText: text,
+        dimensions: this.dimensions,
+        normalize: this.#normalize,
+      },
+    );
+
+    return embedding;
+  }
+}
+
+/**
+ * Cohere Embed (English or Multilingual) v3, produces embeddings with 1024 dimensions.
+ * Queries and documents are embedded with a different `input_type`.
+ */
+class CohereEmbeddingProvider implements EmbeddingProvider {
+  public readonly modelId: string;
+  public readonly dimensions = 1024;
+  public readonly maxInputTokens = 512;
+
+  public constructor(options: { modelId?: string }) {
+    this.modelId = options.modelId ?? 'cohere.embed-english-v3';
+  }
+
+  public async embed(
+    text: string,
+    inputType: EmbeddingInputType,
+  ): Promise<number[]> {
+    const { embeddings } = await invokeModel<{ embeddings: number[][] }>(
+      this.modelId,
+      { texts: [text], input_type: inputType, truncate: 'END' },
+    );
+
+    return embeddings[0];
+  }
+}
+
+/**
+ * Deterministic local provider that derives a unit vector from the SHA-256 hash of the text,
+ * it doesn't call Bedrock and is meant for local development and tests only.
+ */
+class FakeEmbeddingProvider implements EmbeddingProvider {
+  public readonly modelId = 'local.fake';
+  public readonly dimensions: number;
+  public readonly maxInputTokens = 8192;
+
+  public constructor(options: { dimensions?: number }) {
+    this.dimensions = options.dimensions ?? 1536;
+  }
+
+  public async embed(text: string): Promise<number[]> {
+    const values: number[] = [];
+    for (let block = 0; values.length < this.dimensions; block++) {
+      const digest = createHash('sha256').update(`${block}:${text}`).digest();
+      for (
+        let i = 0;
+        i < digest.length && values.length < this.dimensions;
+        i += 4
+      ) {
+        values.push(digest.readUInt32BE(i) / 0xffffffff * 2 - 1);
+      }
+    }
+    const norm = Math.sqrt(values.reduce((sum, value) => sum + value ** 2, 0));
+
+    return values.map((value) => value / norm);
+  }
+}
+
+/**
+ * Configuration of an embedding provider, it mirrors the `embedding` configuration of the stack.
+ */
+type EmbeddingProviderConfig = {
+  provider: 'titan-v1' | 'titan-v2' | 'cohere' | 'fake';
+  modelId?: string;
+  dimensions?: number;
+  normalize?: boolean;
+};
+
+/**
+ * Creates an embedding provider from its configuration.
+ *
+ * @param config - The configuration of the embedding provider
+ */
+const createEmbeddingProvider = (
+  config: EmbeddingProviderConfig,
+): EmbeddingProvider => {
+  const { provider, modelId, dimensions, normalize } = config;
+  switch (provider) {
+    case 'titan-v1':
+      return new TitanV1EmbeddingProvider();
+    case 'titan-v2':
+      return new TitanV2EmbeddingProvider({ dimensions, normalize });
+    case 'cohere':
+      return new CohereEmbeddingProvider({ modelId });
+    case 'fake':
+      return new FakeEmbeddingProvider({ dimensions });
+    default:
+      throw new Error(`Unknown embedding provider ${provider}`);
+  }
+};
+
+/**
+ * Reads the configuration of the embedding provider from the `EMBEDDING_PROVIDER`, `EMBEDDING_MODEL_ID`,
+ * `EMBEDDING_DIMENSIONS`, and `EMBEDDING_NORMALIZE` environment variables set by the stack.
+ *
+ * @note - when no provider is configured, Titan Embeddings G1 - Text is used.
+ */
+const getEmbeddingProviderConfigFromEnv = (): EmbeddingProviderConfig => ({
+  provider: (process.env.EMBEDDING_PROVIDER
+    || 'titan-v1') as EmbeddingProviderConfig['provider'],
+  modelId: process.env.EMBEDDING_MODEL_ID,
+  dimensions: process.env.EMBEDDING_DIMENSIONS
+    ? parseInt(process.env.EMBEDDING_DIMENSIONS)
+    : undefined,
+  normalize: process.env.EMBEDDING_NORMALIZE
+    ? process.env.EMBEDDING_NORMALIZE === 'true'
+    : undefined,
+});
+
+const providers = new Map<string, EmbeddingProvider>();
+/**
+ * Returns the embedding provider for the given configuration, or for the configuration
+ * set in the environment variables when none is given. Providers are created once and reused.
+ *
+ * @param config - The configuration of the embedding provider
+ */
+const getEmbeddingProvider = (
+  config: EmbeddingProviderConfig = getEmbeddingProviderConfigFromEnv(),
+): EmbeddingProvider => {
+  const key = JSON.stringify(config);
+  let provider = providers.get(key);
+  if (!provider) {
+    provider = createEmbeddingProvider(config);
+    providers.set(key, provider);
+    logger.debug('Embedding provider created', {
+      provider: config.provider,
+      modelId: provider.modelId,
+      dimensions: provider.dimensions,
+    });
+  }
+
+  return provider;
+};
+
+/**
+ * Creates an embedding for the given text using the given embedding provider, the text is first truncated
+ * to the input limit of the model so that long documents don't fail to embed.
+ *
+ * @param inputText - The text to embed
+ * @param inputType - Whether the text is a search query or a document, defaults to `search_document`
+ * @param provider - The embedding provider, defaults to the one set in the environment variables
+ */
+const createEmbedding = async (
+  inputText: string,
+  inputType: EmbeddingInputType = 'search_document',
+  provider: EmbeddingProvider = getEmbeddingProvider(),
+): Promise<number[]> => {
+  const embedding = await provider.embed(
+    truncateToTokenBudget(inputText, provider.maxInputTokens),
+    inputType,
+  );
+
+  if (!embedding?.length) {
+    throw new Error('Empty embedding returned by the model');
+  }
+
+  return embedding;
+};
+
+export {
+  CohereEmbeddingProvider,
+  createEmbedding as getEmbedding,
+  createEmbeddingProvider,
+  FakeEmbeddingProvider,
+  getEmbeddingProvider,
+  getEmbeddingProviderConfigFromEnv,
+  TitanV1EmbeddingProvider,
+  TitanV2EmbeddingProvider,
+};
+export type { EmbeddingInputType, EmbeddingProvider, EmbeddingProviderConfig };
@@ -0,0 +1,126 @@
+import { getTextModel } from './generation';
+import { getStringFromEnv } from './helpers';
+import { logger } from './powertools';
+
+/**
+ * Strategy used to expand a search query:
+ * - `multiQuery` generates paraphrases of the query
+ * - `hyde` generates the plot of a hypothetical movie that matches the query (Hypothetical Document Embeddings)
+ */
+type ExpansionStrategy = 'multiQuery' | 'hyde';
+
+/**
+ * Variants of a search query generated by a text model, they are searched along with the original query.
+ */
+type QueryExpansion = {
+  /**
+   * Strategy used to generate the variants
+   */
+  strategy: ExpansionStrategy;
+  /**
+   * Generated variants, without the original query
+   */
+  variants: string[];
+  /**
+   * Whether the variants were generated, `false` when the model failed and only the original query is searched
+   */
+  expanded: boolean;
+};
+
+/**
+ * Builds the prompt that asks the model for paraphrases of the query, one per line.
+ *
+ * @param query - The search query
+ * @param count - The number of paraphrases
+ */
+const buildMultiQueryPrompt = (query: string, count: number): string =>
+  [
+    `Write ${count} different ways to phrase the movie search query below, using other words and adding details that a movie plot would contain.`,
+    'Answer with one phrasing per line, without numbering and without any other text.',
+    '',
+    `Query: ${query}`,
+  ].join('\n');
+
+/**
+ * Builds the prompt that asks the model for the plot of a hypothetical movie that matches the query.
+ *
+ * @param query - The search query
+ */
+const buildHydePrompt = (query: string): string =>
+  [
+    'Write the plot summary of a movie that matches the search query below, in two or three sentences.',
+    "Answer with the plot only, don't mention the title of the movie.",
+    '',
+    `Query: ${query}`,
+  ].join('\n');
+
+/**
+ * Parses the paraphrases returned by the model, one per line, dropping the list markers that models
+ * tend to add anyway, the empty lines and the duplicates of the query.
+ *
+ * @param text - The answer of the model
+ * @param query - The search query
+ * @param count - The maximum number of paraphrases
+ */
+const parseParaphrases = (
+  text: string,
+  query: string,
+  count: number,
+): string[] => {
+  const seen = new Set([query.trim().toLowerCase()]);
+  const paraphrases: string[] = [];
+  for (const line of text.split('\n')) {
+    const paraphrase = line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim();
+    const key = paraphrase.toLowerCase();
+    if (paraphrase.length === 0 || seen.has(key)) continue;
+    seen.add(key);
+    paraphrases.push(paraphrase);
+  }
+
+  return paraphrases.slice(0, count);
+};
+
+/**
+ * Asks the text model set in the `QUERY_EXPANSION_MODEL_ID` environment variable for variants of the query.
+ * The `multiQuery` strategy generates up to `count` paraphrases, the `hyde` strategy generates one hypothetical plot.
+ * When the model fails, no variants are returned so that the search still works with the original query.
+ *
+ * @param query - The search query
+ * @param options - The expansion strategy and the number of paraphrases
+ */
+const expandQuery = async (
+  query: string,
+  options: { strategy: ExpansionStrategy; count: number },
+): Promise<QueryExpansion> => {
+  const { strategy, count } = options;
+  try {
+    const model = getTextModel(getStringFromEnv('QUERY_EXPANSION_MODEL_ID'));
+    let variants: string[];
+    if (strategy === 'hyde') {
+      const { text } = await model.generate(buildHydePrompt(query), {
+        maxTokens: 200,
+      });
+      variants = text.trim().length > 0 ? [text.trim()] : [];
+    } else {
+      const { text } = await model.generate(
+        buildMultiQueryPrompt(query, count),
+        { maxTokens: 60 * count },
+      );
+      variants = parseParaphrases(text, query, count);
+    }
+    logger.info('Query expanded', { query, strategy, variants });
+
+    return { strategy, variants, expanded: variants.length > 0 };
+  } catch (error) {
+    logger.warn('Unable to expand query, using it as-is', {
+      query,
+      strategy,
+      error,
+    });
+
+    return { strategy, variants: [], expanded: false };
+  }
+};
+
+export { expandQuery };
+export type { ExpansionStrategy, QueryExpansion };
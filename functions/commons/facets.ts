@@ -0,0 +1,92 @@
+import type { Document } from 'mongodb';
+import { FACET_MAX_BUCKETS } from './constants';
+
+/**
+ * Facets that can be computed over the candidates of a search:
+ * - `genres` and `languages` count the movies of each value
+ * - `decade` counts the movies released in each decade, i.e. `1990` for 1990-1999
+ * - `rating` counts the movies in each IMDb rating range, i.e. `7` for 7.0-7.9
+ */
+type FacetName = 'genres' | 'decade' | 'rating' | 'languages';
+
+/**
+ * A value of a facet along with the number of candidates that have it.
+ */
+type FacetBucket = { value: string | number; count: number };
+
+/**
+ * Buckets of each requested facet.
+ */
+type Facets = Partial<Record<FacetName, FacetBucket[]>>;
+
+const FACET_NAMES: FacetName[] = ['genres', 'decade', 'rating', 'languages'];
+
+/**
+ * Counts the values of an array field, from the most to the least frequent.
+ *
+ * @param field - The array field
+ */
+const countValues = (field: string): Document[] => [
+  { $unwind: `$${field}` },
+  { $sortByCount: `$${field}` },
+  { $limit: FACET_MAX_BUCKETS },
+];
+
+/**
+ * Counts the values of a numeric field grouped in ranges of the given size, the documents where the field
+ * is not a number (i.e. the empty IMDb ratings of the sample data set) are ignored.
+ *
+ * @param field - The numeric field
+ * @param size - The size of the ranges
+ * @param order - The order of the ranges, `1` for ascending and `-1` for descending
+ */
+const countRanges = (
+  field: string,
+  size: number,
+  order: 1 | -1,
+): Document[] => [
+  { $match: { [field]: { $type: 'number' } } },
+  {
+    $group: {
+      _id: { $multiply: [{ $floor: { $divide: [`$${field}`, size] } }, size] },
+      count: { $sum: 1 },
+    },
+  },
+  { $sort: { _id: order } },
+];
+
+const facetPipelines: Record<FacetName, Document[]> = {
+  genres: countValues('genres'),
+  decade: countRanges('year', 10, 1),
+  rating: countRanges('imdb.rating', 1, -1),
+  languages: countValues('languages'),
+};
+
+/**
+ * Builds the `$facet` stage that computes the requested facets over the documents of the previous stages.
+ *
+ * @param facets - The facets to compute
+ */
+const buildFacetStage = (facets: FacetName[]): Document => ({
+  $facet: Object.fromEntries(
+    facets.map((facet) => [facet, facetPipelines[facet]]),
+  ),
+});
+
+/**
+ * Converts the output of the `$facet` stage into the buckets of each facet.
+ *
+ * @param output - The document returned by the `$facet` stage
+ */
+const parseFacets = (output: Document): Facets =>
+  Object.fromEntries(
+    Object.entries(output).map(([facet, buckets]) => [
+      facet,
+      (buckets as { _id: string | number; count: number }[]).map((
+        { _id, count },
+      ) => ({ value: _id, count })),
+    ]),
+  );
+
+export { buildFacetStage, FACET_NAMES, parseFacets };
+export type { FacetBucket, FacetName, Facets };
@@ -0,0 +1,150 @@
+import type { Document, Filter } from 'mongodb';
+
+/**
+ * Structured pre-filters accepted by the search routes.
+ *
+ * Each field maps to a field of the `movies` collection that is indexed as
+ * `filter` in the MongoDB Atlas Vector Search index.
+ */
+type SearchFilters = {
+  /**
+   * Match movies that have at least one of the given genres
+   */
+  genres?: string[];
+  /**
+   * Match movies released within the given (inclusive) year range
+   */
+  year?: { gte?: number; lte?: number };
+  /**
+   * Match movies that have one of the given ratings (i.e. `PG-13`, `R`)
+   */
+  rated?: string[];
+  /**
+   * Match movies that are available in at least one of the given languages
+   */
+  languages?: string[];
+  /**
+   * Match movies with an IMDb rating greater than or equal to the given value
+   */
+  minImdbRating?: number;
+  /**
+   * Match movies produced in at least one of the given countries (i.e. `Japan`)
+   */
+  countries?: string[];
+  /**
+   * Match movies featuring at least one of the given actors
+   */
+  cast?: string[];
+  /**
+   * Match movies directed by at least one of the given directors
+   */
+  directors?: string[];
+};
+
+/**
+ * Returns whether the value is a non-empty array of strings.
+ *
+ * @param value - The value to check
+ */
+const isStringArray = (value: unknown): boolean =>
+  Array.isArray(value)
+  && value.length > 0
+  && value.every((item) => typeof item === 'string');
+
+/**
+ * Returns whether the value has the shape of the search filters, with the same rules as the request models
+ * of the API (see `searchFiltersSchema` in the stack). Used to validate the filters that don't go through
+ * API Gateway, i.e. the ones carried by a cursor.
+ *
+ * @param value - The value to check
+ */
+const isSearchFilters = (value: unknown): value is SearchFilters =>
+  typeof value === 'object'
+  && value !== null
+  && !Array.isArray(value)
+  && Object.entries(value).every(([key, filter]) => {
+    switch (key) {
+      case 'genres':
+      case 'rated':
+      case 'languages':
+      case 'countries':
+      case 'cast':
+      case 'directors':
+        return isStringArray(filter);
+      case 'year':
+        return (
+          typeof filter === 'object'
+          && filter !== null
+          && !Array.isArray(filter)
+          && Object.entries(filter).every(([bound, year]) =>
+            (bound === 'gte' || bound === 'lte') && Number.isInteger(year)
+          )
+        );
+      case 'minImdbRating':
+        return typeof filter === 'number' && filter >= 0 && filter <= 10;
+      default:
+        return false;
+    }
+  });
+
+/**
+ * Converts the structured search filters into a MongoDB filter that can be used
+ * as `filter` in a `$vectorSearch` stage. Returns `undefined` when no filter is set.
+ *
+ * @param filters - The structured filters coming from the request
+ */
+const buildVectorSearchFilter = (
+  filters?: SearchFilters,
+): Filter<Document> | undefined => {
+  if (!filters) return;
+
+  const {
+    genres,
+    year,
+    rated,
+    languages,
+    minImdbRating,
+    countries,
+    cast,
+    directors,
+  } = filters;
+  const conditions: Filter<Document>[] = [];
+
+  if (genres?.length) {
+    conditions.push({ genres: { $in: genres } });
+  }
+  if (year?.gte !== undefined || year?.lte !== undefined) {
+    conditions.push({
+      year: {
+        ...(year.gte !== undefined && { $gte: year.gte }),
+        ...(year.lte !== undefined && { $lte: year.lte }),
+      },
+    });
+  }
+  if (rated?.length) {
+    conditions.push({ rated: { $in: rated } });
+  }
+  if (languages?.length) {
+    conditions.push({ languages: { $in: languages } });
+  }
+  if (minImdbRating !== undefined) {
+    conditions.push({ 'imdb.rating': { $gte: minImdbRating } });
+  }
+  if (countries?.length) {
+    conditions.push({ countries: { $in: countries } });
+  }
+  if (cast?.length) {
+    conditions.push({ cast: { $in: cast } });
+  }
+  if (directors?.length) {
+    conditions.push({ directors: { $in: directors } });
+  }
+
+  if (conditions.length === 0) return;
+  if (conditions.length === 1) return conditions[0];
+
+  return { $and: conditions };
+};
+
+export { buildVectorSearchFilter, isSearchFilters };
+export type { SearchFilters };
@@ -0,0 +1,117 @@
+import type { Document, WithId } from 'mongodb';
+
+/**
+ * A ranked list of results that takes part in a fusion, along with its name and weight.
+ */
+type RankedList = {
+  /**
+   * Name of the list, used to report the rank of each result in the list
+   */
+  name: string;
+  /**
+   * Weight of the list in the fused score
+   */
+  weight: number;
+  /**
+   * Results of the list, sorted from the most to the least relevant
+   */
+  results: WithId<Document>[];
+};
+
+/**
+ * A result after fusion, it contains the fused score as well as the 1-based rank
+ * of the result in each list (`null` if the result was not in the list).
+ */
+type FusedResult = WithId<Document> & {
+  score: number;
+  ranks: Record<string, number | null>;
+};
+
+/**
+ * Merges multiple ranked lists using weighted Reciprocal Rank Fusion (RRF).
+ *
+ * Each result gets a score of `weight / (k + rank)` for every list it appears in,
+ * then the scores are summed and the results are sorted by the fused score.
+ *
+ * @see https://plg.uwaterloo.ca/~gvcormac/cormacksigir09-rrf.pdf
+ *
+ * @param lists - The ranked lists to merge
+ * @param k - The rank constant, higher values reduce the weight of top ranked results
+ */
+const reciprocalRankFusion = (lists: RankedList[], k = 60): FusedResult[] => {
+  const fused = new Map<string, FusedResult>();
+
+  for (const { name, weight, results } of lists) {
+    results.forEach((result, index) => {
+      const key = result._id.toString();
+      const { score: _score, ...document } = result;
+      let entry = fused.get(key);
+      if (!entry) {
+        entry = {
+          ...document,
+          _id: result._id,
+          score: 0,
+          ranks: Object.fromEntries(lists.map((list) => [list.name, null])),
+        };
+        fused.set(key, entry);
+      }
+      entry.score += weight / (k + index + 1);
+      entry.ranks[name] = index + 1;
+    });
+  }
+
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+};
+
+/**
+ * A result after weighted score fusion, it contains the fused score as well as the score of the result
+ * in each list (`null` if the result was not in the list) and its contribution to the fused score.
+ */
+type WeightedResult = WithId<Document> & {
+  score: number;
+  contributions: Record<
+    string,
+    { score: number | null; contribution: number }
+  >;
+};
+
+/**
+ * Merges multiple scored lists using weighted score fusion.
+ *
+ * The weights are normalized so that they sum to `1`, then each result gets a score of `weight * score`
+ * for every list it appears in and `0` for the others. The scores are summed and the results are sorted by the fused score,
+ * which stays in the range of the scores of the lists. Unlike Reciprocal Rank Fusion, the scores of the lists must be comparable.
+ *
+ * @param lists - The scored lists to merge, each result has a `score`
+ */
+const weightedScoreFusion = (lists: RankedList[]): WeightedResult[] => {
+  const total = lists.reduce((sum, { weight }) => sum + weight, 0);
+  const fused = new Map<string, WeightedResult>();
+
+  for (const { name, weight, results } of lists) {
+    for (const result of results) {
+      const key = result._id.toString();
+      const { score, ...document } = result;
+      let entry = fused.get(key);
+      if (!entry) {
+        entry = {
+          ...document,
+          _id: result._id,
+          score: 0,
+          contributions: Object.fromEntries(
+            lists.map((list) => [list.name, { score: null, contribution: 0 }]),
+          ),
+        };
+        fused.set(key, entry);
+      }
+      const contribution = total > 0 ? (weight / total) * score : 0;
+      entry.score += contribution;
+      entry.contributions[name] = { score, contribution };
+    }
+  }
+
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+};
+
+export { reciprocalRankFusion, weightedScoreFusion };
+export type { FusedResult, RankedList, WeightedResult };
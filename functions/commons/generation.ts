@@ -0,0 +1,223 @@
+import { invokeModel, invokeModelWithResponseStream } from './helpers';
+
+/**
+ * Number of tokens read and generated by a text model.
+ */
+type TokenUsage = {
+  inputTokens: number;
+  outputTokens: number;
+};
+
+/**
+ * Text generated by a text model, along with the token usage and the reason why the generation stopped.
+ */
+type GeneratedText = {
+  text: string;
+  usage: TokenUsage;
+  stopReason?: string;
+};
+
+/**
+ * Event yielded while streaming the generated text, a `text` event for each chunk of text
+ * and a final `done` event with the token usage.
+ */
+type TextStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'done'; usage: TokenUsage; stopReason?: string };
+
+/**
+ * A Bedrock text model that can generate text from a prompt.
+ */
+interface TextModel {
+  readonly modelId: string;
+  /**
+   * Generates text from the given prompt.
+   *
+   * @param prompt - The prompt, including any instruction and context
+   * @param options - The maximum number of tokens to generate
+   */
+  generate(
+    prompt: string,
+    options: { maxTokens: number },
+  ): Promise<GeneratedText>;
+  /**
+   * Generates text from the given prompt and yields it as it's generated.
+   *
+   * @param prompt - The prompt, including any instruction and context
+   * @param options - The maximum number of tokens to generate
+   */
+  stream(
+    prompt: string,
+    options: { maxTokens: number },
+  ): AsyncGenerator<TextStreamEvent>;
+}
+
+/**
+ * Anthropic Claude models, invoked with the Messages API.
+ */
+class ClaudeTextModel implements TextModel {
+  public readonly modelId: string;
+
+  public constructor(modelId: string) {
+    this.modelId = modelId;
+  }
+
+  public async generate(
+    prompt: string,
+    options: { maxTokens: number },
+  ): Promise<GeneratedText> {
+    const { content, usage, stop_reason } = await invokeModel<{
+      content: { type: string; text?: string }[];
+      usage: { input_tokens: number; output_tokens: number };
+      stop_reason: string;
+    }>(this.modelId, {
+      anthropic_version: 'bedrock-2023-05-31',
+      max_tokens: options.maxTokens,
+      temperature: 0,
+      messages: [{ role: 'user', content: prompt }],
+    });
+
+    return {
+      text: content.map(({ text }) => text ?? '').join(''),
+      usage: {
+        inputTokens: usage.input_tokens,
+        outputTokens: usage.output_tokens,
+      },
+      stopReason: stop_reason,
+    };
+  }
+
+  public async *stream(
+    prompt: string,
+    options: { maxTokens: number },
+  ): AsyncGenerator<TextStreamEvent> {
+    const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+    let stopReason: string | undefined;
+    const chunks = invokeModelWithResponseStream<{
+      type: string;
+      message?: { usage: { input_tokens: number } };
+      delta?: { text?: string; stop_reason?: string };
+      usage?: { output_tokens: number };
+    }>(this.modelId, {
+      anthropic_version: 'bedrock-2023-05-31',
+      max_tokens: options.maxTokens,
+      temperature: 0,
+      messages: [{ role: 'user', content: prompt }],
+    });
+    for await (const chunk of chunks) {
+      switch (chunk.type) {
+        case 'message_start':
+          usage.inputTokens = chunk.message?.usage.input_tokens ?? 0;
+          break;
+        case 'content_block_delta':
+          if (chunk.delta?.text) yield { type: 'text', text: chunk.delta.text };
+          break;
+        case 'message_delta':
+          usage.outputTokens = chunk.usage?.output_tokens ?? 0;
+          stopReason = chunk.delta?.stop_reason;
+          break;
+      }
+    }
+
+    yield { type: 'done', usage, stopReason };
+  }
+}
+
+/**
+ * Amazon Titan Text models (Lite, Express, Premier).
+ */
+class TitanTextModel implements TextModel {
+  public readonly modelId: string;
+
+  public constructor(modelId: string) {
+    this.modelId = modelId;
+  }
+
+  public async generate(
+    prompt: string,
+    options: { maxTokens: number },
+  ): Promise<GeneratedText> {
+    const { inputTextTokenCount, results } = await invokeModel<{
+      inputTextTokenCount: number;
+      results: {
+        outputText: string;
+        tokenCount: number;
+        completionReason: string;
+      }[];
+    }>(this.modelId, {
+      inputText: prompt,
+      textGenerationConfig: {
+        maxTokenCount: options.maxTokens,
+        temperature: 0,
+      },
+    });
+
+    return {
+      text: results.map(({ outputText }) => outputText).join(''),
+      usage: {
+        inputTokens: inputTextTokenCount,
+        outputTokens: results.reduce(
+          (sum, { tokenCount }) => sum + tokenCount,
+          0,
+        ),
+      },
+      stopReason: results[0]?.completionReason,
+    };
+  }
+
+  public async *stream(
+    prompt: string,
+    options: { maxTokens: number },
+  ): AsyncGenerator<TextStreamEvent> {
+    const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+    let stopReason: string | undefined;
+    const chunks = invokeModelWithResponseStream<{
+      outputText: string;
+      inputTextTokenCount?: number;
+      totalOutputTextTokenCount?: number;
+      completionReason: string | null;
+    }>(this.modelId, {
+      inputText: prompt,
+      textGenerationConfig: {
+        maxTokenCount: options.maxTokens,
+        temperature: 0,
+      },
+    });
+    for await (const chunk of chunks) {
+      if (chunk.outputText) yield { type: 'text', text: chunk.outputText };
+      // The input token count is only sent with the first chunk, and the output token count with the last one
+      usage.inputTokens = chunk.inputTextTokenCount ?? usage.inputTokens;
+      usage.outputTokens = chunk.totalOutputTextTokenCount
+        ?? usage.outputTokens;
+      stopReason = chunk.completionReason ?? stopReason;
+    }
+
+    yield { type: 'done', usage, stopReason };
+  }
+}
+
+const textModels = new Map<string, TextModel>();
+/**
+ * Returns the text model for the given Bedrock model id, the family of the model is inferred
+ * from the prefix of the id. Models are created once and reused.
+ *
+ * @param modelId - The id of the Bedrock model, i.e. `anthropic.claude-3-haiku-20240307-v1:0`
+ */
+const getTextModel = (modelId: string): TextModel => {
+  let model = textModels.get(modelId);
+  if (!model) {
+    if (modelId.startsWith('anthropic.')) {
+      model = new ClaudeTextModel(modelId);
+    } else if (modelId.startsWith('amazon.titan-text')) {
+      model = new TitanTextModel(modelId);
+    } else {
+      throw new Error(`Unsupported text model ${modelId}`);
+    }
+    textModels.set(modelId, model);
+  }
+
+  return model;
+};
+
+export { ClaudeTextModel, getTextModel, TitanTextModel };
+export type { GeneratedText, TextModel, TextStreamEvent, TokenUsage };
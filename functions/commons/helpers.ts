@@ -3,15 +3,28 @@ import { getSecret } from '@aws-lambda-powertools/parameters/secrets';
 import {
   BedrockRuntimeClient,
   InvokeModelCommand,
+  InvokeModelWithResponseStreamCommand,
 } from '@aws-sdk/client-bedrock-runtime';
 import {
+  DisableRuleCommand,
+  EventBridgeClient,
+} from '@aws-sdk/client-eventbridge';
+import {
+  GetQueueAttributesCommand,
   SendMessageBatchCommand,
   type SendMessageBatchCommandInput,
   SQSClient,
 } from '@aws-sdk/client-sqs';
-import { Collection, MongoClient, ServerApiVersion } from 'mongodb';
 import {
-  BEDROCK_MODEL_ID,
+  BSON,
+  Collection,
+  type Document,
+  MongoClient,
+  ObjectId,
+} from 'mongodb';
+import { createHash } from 'node:crypto';
+import {
+  EVENTBRIDGE_REQUEST_TIMEOUT_MS,
   MONGODB_COLLECTION_NAME,
   MONGODB_DATABASE_NAME,
 } from './constants';
@@ -31,17 +44,99 @@ const getStringFromEnv = (name: string): string => {
   return value;
 };
 
-let mongoClient: MongoClient;
-let collection: Collection;
+/**
+ * Maps the items with an async function, running at most `concurrency` calls at a time.
+ * The results are in the same order as the items.
+ *
+ * @param items - The items to map
+ * @param concurrency - The maximum number of concurrent calls
+ * @param fn - The async function to apply to each item
+ */
+const mapWithConcurrency = async <T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, worker),
+  );
+
+  return results;
+};
+
+/**
+ * Returns the SHA-256 hash of a text, used to identify the content an embedding was created from.
+ *
+ * @param text - The text to hash
+ */
+const createContentHash = (text: string): string =>
+  createHash('sha256').update(text).digest('hex');
+
+/**
+ * Returns the value at the given dot-separated path of a document, i.e. `embeddings.v2`,
+ * or `undefined` if any of the fields along the path is missing.
+ *
+ * @param document - The document to read
+ * @param path - The dot-separated path of the field
+ */
+const getFieldByPath = (document: unknown, path: string): unknown =>
+  path.split('.').reduce<unknown>(
+    (value, key) => (value as Record<string, unknown> | undefined)?.[key],
+    document,
+  );
+
+/**
+ * Parses the `_id` of a document from a path parameter: a 24-character hex string is an `ObjectId`,
+ * any other value is read as Extended JSON (i.e. `42` or `"tt0111161"`) or taken as a string when it's not valid JSON.
+ *
+ * @param value - The `_id` as it appears in the path
+ */
+const parseDocumentId = (value: string): unknown => {
+  if (/^[0-9a-f]{24}$/i.test(value)) return new ObjectId(value);
+  try {
+    return BSON.EJSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+/**
+ * Formats the `_id` of a document for logs, traces and keys: strings and the hex string of an `ObjectId`
+ * are used as-is, any other value as Extended JSON.
+ *
+ * @param id - The `_id` of the document, with its BSON type
+ */
+const formatDocumentId = (id: unknown): string => {
+  if (typeof id === 'string') return id;
+  if (id instanceof ObjectId) return id.toHexString();
+
+  return BSON.EJSON.stringify(id);
+};
+
+let mongoClient: Promise<MongoClient> | undefined;
 /**
  * Creates a MongoDB client and returns a collection object. If the client is already created,
- * returns the existing collection object.
+ * returns a collection object from the existing client. Concurrent calls share the client being created.
  *
  * The connection string is retrieved from Secrets Manager using the Parameters utility from
  * the AWS Lambda Powertools (TypeScript).
+ *
+ * @param collectionName - The name of the collection, defaults to the collection being searched
+ * @param databaseName - The name of the database, defaults to the database that also stores the internal collections
  */
-const getMongoCollection = async () => {
-  if (!mongoClient) {
+const getMongoCollection = async <T extends Document = Document>(
+  collectionName: string = MONGODB_COLLECTION_NAME,
+  databaseName: string = MONGODB_DATABASE_NAME,
+): Promise<Collection<T>> => {
+  mongoClient ??= (async () => {
     const mongoDBSecretName = getStringFromEnv(
       'MONGODB_CONNECTION_STRING_SECRET_NAME',
     );
@@ -53,56 +148,74 @@ const getMongoCollection = async () => {
       throw new Error('MongoDB connection string not found');
     }
 
-    mongoClient = new MongoClient(secret.url, {
+    const client = new MongoClient(secret.url, {
       connectTimeoutMS: 5000,
     });
 
-    mongoClient.connect();
-    collection = mongoClient
-      .db(MONGODB_DATABASE_NAME)
-      .collection(MONGODB_COLLECTION_NAME);
-  }
+    client.connect();
 
-  return collection;
+    return client;
+  })().catch((error) => {
+    // Try again on the next call rather than caching the failure
+    mongoClient = undefined;
+    throw error;
+  });
+  const client = await mongoClient;
+
+  return client.db(databaseName).collection<T>(collectionName);
 };
 
 process.on('SIGTERM', async () => {
   logger.info('Closing MongoDB connection');
-  await mongoClient.close();
+  await (await mongoClient)?.close();
   process.exit(0);
 });
 
+const bedrockClients = new Map<string, BedrockRuntimeClient>();
 /**
- * Bedrock Runtime client instrumented using the Tracer utility from
- * Powertools for AWS Lambda (TypeScript) to send trace data to AWS X-Ray.
+ * Returns the Bedrock Runtime client of the given region instrumented using the Tracer utility from
+ * Powertools for AWS Lambda (TypeScript) to send trace data to AWS X-Ray. The client of each region is created once and reused.
  *
- * @note - the region is hardcoded to `us-east-1` because at the time of
+ * @note - the region defaults to `us-east-1` because at the time of
  * writing, the Bedrock Runtime is available in `us-east-1`.
+ *
+ * @param region - The region of the Bedrock Runtime, i.e. for models that are not available in `us-east-1`
  */
-const bedrockClient = tracer.captureAWSv3Client(
-  new BedrockRuntimeClient({
-    region: 'us-east-1',
-  }),
-);
+const getBedrockClient = (
+  region: string = 'us-east-1',
+): BedrockRuntimeClient => {
+  let client = bedrockClients.get(region);
+  if (!client) {
+    client = tracer.captureAWSv3Client(new BedrockRuntimeClient({ region }));
+    bedrockClients.set(region, client);
+  }
+
+  return client;
+};
 
 /**
- * Calls the Bedrock Runtime API to create an embedding for the given text.
+ * Calls the Bedrock Runtime API to invoke the given model with a JSON body and returns the parsed JSON response.
  *
- * @param inputText - The text to embed
+ * @param modelId - The id of the Bedrock model to invoke
+ * @param body - The request body, its shape depends on the model
+ * @param region - The region of the Bedrock Runtime, see `getBedrockClient`
  */
-const createEmbedding = async (inputText: string): Promise<number[]> => {
+const invokeModel = async <T = Record<string, unknown>>(
+  modelId: string,
+  body: Record<string, unknown>,
+  region?: string,
+): Promise<T> => {
   const handlerSubsegment = tracer.getSegment();
-  const subsegment = handlerSubsegment?.addNewSubsegment('### getEmbedding');
+  const subsegment = handlerSubsegment?.addNewSubsegment('### invokeModel');
   subsegment && tracer.setSegment(subsegment);
+  subsegment?.addAnnotation('modelId', modelId);
   try {
-    const response = await bedrockClient.send(
+    const response = await getBedrockClient(region).send(
       new InvokeModelCommand({
-        modelId: BEDROCK_MODEL_ID,
+        modelId,
         accept: '*/*',
         contentType: 'application/json',
-        body: JSON.stringify({
-          inputText,
-        }),
+        body: JSON.stringify(body),
       }),
     );
 
@@ -110,10 +223,7 @@ const createEmbedding = async (inputText: string): Promise<number[]> => {
       throw new Error('Error in model response');
     }
 
-    const body = response.body;
-    const { embedding } = JSON.parse(new TextDecoder().decode(body));
-
-    return embedding;
+    return JSON.parse(new TextDecoder().decode(response.body));
   } catch (error) {
     logger.error('Unable to invoke model', error as Error);
 
@@ -124,6 +234,63 @@ const createEmbedding = async (inputText: string): Promise<number[]> => {
   }
 };
 
+/**
+ * Calls the Bedrock Runtime API to invoke the given model with a JSON body and yields each parsed JSON chunk
+ * of the response as soon as it's received, the shape of the chunks depends on the model.
+ *
+ * @param modelId - The id of the Bedrock model to invoke
+ * @param body - The request body, its shape depends on the model
+ */
+async function* invokeModelWithResponseStream<T = Record<string, unknown>>(
+  modelId: string,
+  body: Record<string, unknown>,
+): AsyncGenerator<T> {
+  const handlerSubsegment = tracer.getSegment();
+  const subsegment = handlerSubsegment?.addNewSubsegment(
+    '### invokeModelWithResponseStream',
+  );
+  subsegment && tracer.setSegment(subsegment);
+  subsegment?.addAnnotation('modelId', modelId);
+  try {
+    const response = await getBedrockClient().send(
+      new InvokeModelWithResponseStreamCommand({
+        modelId,
+        accept: '*/*',
+        contentType: 'application/json',
+        body: JSON.stringify(body),
+      }),
+    );
+    // Restore the parent so the caller's work between chunks is not traced here
+    handlerSubsegment && tracer.setSegment(handlerSubsegment);
+
+    if (response.$metadata.httpStatusCode !== 200 || !response.body) {
+      throw new Error('Error in model response');
+    }
+
+    const decoder = new TextDecoder();
+    for await (const event of response.body) {
+      if (event.chunk?.bytes) {
+        yield JSON.parse(decoder.decode(event.chunk.bytes));
+      } else {
+        // Errors are sent as events once the stream has started
+        const [name, error] = Object.entries(event).find(([, value]) =>
+          value !== undefined
+        ) ?? ['unknown', undefined];
+        throw new Error(`Error in model response stream: ${name}`, {
+          cause: error,
+        });
+      }
+    }
+  } catch (error) {
+    logger.error('Unable to invoke model with response stream', error as Error);
+
+    throw error;
+  } finally {
+    subsegment?.close();
+    handlerSubsegment && tracer.setSegment(handlerSubsegment);
+  }
+}
+
 /**
  * SQS client instrumented using the Tracer utility from Powertools for AWS Lambda (TypeScript)
  * to send trace data to AWS X-Ray.
@@ -131,24 +298,81 @@ const createEmbedding = async (inputText: string): Promise<number[]> => {
 const sqsClient = tracer.captureAWSv3Client(new SQSClient({}));
 
 /**
- * Sends a batch of messages to SQS.
+ * Sends a batch of messages to SQS and returns the number of messages that were sent successfully.
  *
  * @param batch - The batch of messages to send to SQS
  */
 const sendMessagesToQueue = async (
   batch: SendMessageBatchCommandInput['Entries'],
-): Promise<void> => {
+): Promise<number> => {
   const queueUrl = getStringFromEnv('EVENTS_QUEUE_URL');
-  await sqsClient.send(
+  const { Successful = [], Failed = [] } = await sqsClient.send(
     new SendMessageBatchCommand({
       QueueUrl: queueUrl,
       Entries: batch,
     }),
   );
+  if (Failed.length > 0) {
+    logger.warn('Some messages were not sent to the queue', { failed: Failed });
+  }
+
+  return Successful.length;
+};
+
+/**
+ * Returns the number of messages in the SQS queue, including the ones being processed.
+ */
+const getQueueDepth = async (): Promise<number> => {
+  const queueUrl = getStringFromEnv('EVENTS_QUEUE_URL');
+  const { Attributes = {} } = await sqsClient.send(
+    new GetQueueAttributesCommand({
+      QueueUrl: queueUrl,
+      AttributeNames: [
+        'ApproximateNumberOfMessages',
+        'ApproximateNumberOfMessagesNotVisible',
+      ],
+    }),
+  );
+
+  return (
+    parseInt(Attributes.ApproximateNumberOfMessages ?? '0')
+    + parseInt(Attributes.ApproximateNumberOfMessagesNotVisible ?? '0')
+  );
+};
+
+/**
+ * EventBridge client instrumented using the Tracer utility from Powertools for AWS Lambda (TypeScript)
+ * to send trace data to AWS X-Ray.
+ */
+const eventBridgeClient = tracer.captureAWSv3Client(
+  new EventBridgeClient({
+    requestHandler: {
+      connectionTimeout: EVENTBRIDGE_REQUEST_TIMEOUT_MS,
+      requestTimeout: EVENTBRIDGE_REQUEST_TIMEOUT_MS,
+    },
+  }),
+);
+
+/**
+ * Disables an EventBridge rule on the default event bus, i.e. to stop a schedule.
+ *
+ * @param name - The name of the rule to disable
+ */
+const disableRule = async (name: string): Promise<void> => {
+  await eventBridgeClient.send(new DisableRuleCommand({ Name: name }));
 };
 
 export {
-  createEmbedding as getEmbedding,
+  createContentHash,
+  disableRule,
+  formatDocumentId,
+  getFieldByPath,
   getMongoCollection,
+  getQueueDepth,
+  getStringFromEnv,
+  invokeModel,
+  invokeModelWithResponseStream,
+  mapWithConcurrency,
+  parseDocumentId,
   sendMessagesToQueue,
 };
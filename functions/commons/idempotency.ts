@@ -0,0 +1,182 @@
+import { MongoServerError } from 'mongodb';
+import {
+  IDEMPOTENCY_IN_PROGRESS_TTL_SECONDS,
+  IDEMPOTENCY_TTL_SECONDS,
+  MONGODB_IDEMPOTENCY_COLLECTION_NAME,
+} from './constants';
+import { getMongoCollection } from './helpers';
+
+/**
+ * Outcome of claiming an idempotency key:
+ * - `claimed` the key was free, the caller must process the event then complete or release the key
+ * - `in_progress` another invocation is processing the same event right now
+ * - `completed` the same event was already processed within the window
+ */
+type IdempotencyOutcome = 'claimed' | 'in_progress' | 'completed';
+
+type IdempotencyRecord = {
+  _id: string;
+  status: 'in_progress' | 'completed';
+  /**
+   * Date after which the record is ignored, MongoDB removes it with a TTL index
+   */
+  expiresAt: Date;
+};
+
+/**
+ * A store that keeps track of the events being processed or already processed.
+ */
+interface IdempotencyStore {
+  /**
+   * Claims the key for processing unless it's already claimed or completed and not expired.
+   *
+   * @param key - The idempotency key, see `getIdempotencyKey`
+   */
+  claim(key: string): Promise<IdempotencyOutcome>;
+  /**
+   * Marks the key as completed, duplicates are short-circuited until the record expires.
+   *
+   * @param key - The idempotency key
+   */
+  complete(key: string): Promise<void>;
+  /**
+   * Removes the key after a failure so that the event can be retried.
+   *
+   * @param key - The idempotency key
+   */
+  release(key: string): Promise<void>;
+}
+
+/**
+ * Returns the date after which a record expires.
+ *
+ * @param seconds - The time to live of the record in seconds
+ */
+const getExpiration = (seconds: number) =>
+  new Date(Date.now() + seconds * 1000);
+
+/**
+ * Idempotency store backed by a MongoDB collection, records are removed by a TTL index on `expiresAt`.
+ * Since the TTL monitor only runs every minute, expired records are also ignored when claiming a key.
+ */
+class MongoIdempotencyStore implements IdempotencyStore {
+  #indexCreated?: Promise<string>;
+
+  /**
+   * Returns the collection, creating the TTL index once per container.
+   */
+  async #getCollection() {
+    const collection = await getMongoCollection<IdempotencyRecord>(
+      MONGODB_IDEMPOTENCY_COLLECTION_NAME,
+    );
+    this.#indexCreated ??= collection
+      .createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+      .catch((error) => {
+        // Try again on the next call rather than caching the failure
+        this.#indexCreated = undefined;
+        throw error;
+      });
+    await this.#indexCreated;
+
+    return collection;
+  }
+
+  async claim(key: string): Promise<IdempotencyOutcome> {
+    const collection = await this.#getCollection();
+    const expiresAt = getExpiration(IDEMPOTENCY_IN_PROGRESS_TTL_SECONDS);
+    try {
+      await collection.insertOne({
+        _id: key,
+        status: 'in_progress',
+        expiresAt,
+      });
+
+      return 'claimed';
+    } catch (error) {
+      // Anything other than a duplicate key means the store is unavailable
+      if (!(error instanceof MongoServerError) || error.code !== 11000) {
+        throw new Error('Unable to claim idempotency key', { cause: error });
+      }
+    }
+
+    // The key exists, take it over only if it has expired
+    const now = new Date();
+    const expired = await collection.findOneAndUpdate(
+      { _id: key, expiresAt: { $lte: now } },
+      { $set: { status: 'in_progress', expiresAt } },
+    );
+    if (expired) return 'claimed';
+
+    const record = await collection.findOne({ _id: key });
+
+    return record?.status ?? 'in_progress';
+  }
+
+  async complete(key: string): Promise<void> {
+    const collection = await this.#getCollection();
+    await collection.updateOne(
+      { _id: key },
+      {
+        $set: {
+          status: 'completed',
+          expiresAt: getExpiration(IDEMPOTENCY_TTL_SECONDS),
+        },
+      },
+    );
+  }
+
+  async release(key: string): Promise<void> {
+    const collection = await this.#getCollection();
+    await collection.deleteOne({ _id: key, status: 'in_progress' });
+  }
+}
+
+/**
+ * Idempotency store that keeps the records in memory, meant for tests and local runs.
+ */
+class InMemoryIdempotencyStore implements IdempotencyStore {
+  #records = new Map<string, Omit<IdempotencyRecord, '_id'>>();
+
+  async claim(key: string): Promise<IdempotencyOutcome> {
+    const record = this.#records.get(key);
+    if (record && record.expiresAt.getTime() > Date.now()) {
+      return record.status;
+    }
+    this.#records.set(key, {
+      status: 'in_progress',
+      expiresAt: getExpiration(IDEMPOTENCY_IN_PROGRESS_TTL_SECONDS),
+    });
+
+    return 'claimed';
+  }
+
+  async complete(key: string): Promise<void> {
+    this.#records.set(key, {
+      status: 'completed',
+      expiresAt: getExpiration(IDEMPOTENCY_TTL_SECONDS),
+    });
+  }
+
+  async release(key: string): Promise<void> {
+    if (this.#records.get(key)?.status === 'in_progress') {
+      this.#records.delete(key);
+    }
+  }
+}
+
+/**
+ * Returns the idempotency key of an embedding event. The versions are part of the key so that
+ * backfilling a new version isn't short-circuited by the events already processed for the active one.
+ *
+ * @param documentId - The document id as it appears in MongoDB
+ * @param eventId - The identity of the change event, which stays the same when the event is delivered again
+ * @param versions - The names of the embedding versions being written
+ */
+const getIdempotencyKey = (
+  documentId: string,
+  eventId: string,
+  versions: string[],
+): string => [documentId, eventId, [...versions].sort().join(',')].join(':');
+
+export { getIdempotencyKey, InMemoryIdempotencyStore, MongoIdempotencyStore };
+export type { IdempotencyOutcome, IdempotencyStore };
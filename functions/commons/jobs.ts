@@ -0,0 +1,225 @@
+import { randomUUID } from 'node:crypto';
+import { MONGODB_BACKFILL_JOBS_COLLECTION_NAME } from './constants';
+import { getMongoCollection } from './helpers';
+import { logger } from './powertools';
+
+type BackfillJobStatus =
+  | 'running'
+  | 'paused'
+  | 'cancelled'
+  | 'completed';
+
+/**
+ * Counters of a backfill job, `read` and `enqueued` are updated by the backfill function
+ * while `embedded`, `skipped` and `failed` are updated by the embed function.
+ */
+type BackfillJobCounters = {
+  read: number;
+  enqueued: number;
+  embedded: number;
+  /**
+   * Documents whose write didn't apply because they changed since they were read, the newer change embeds them.
+   * The jobs created before this counter was introduced don't have it
+   */
+  skipped: number;
+  failed: number;
+};
+
+/**
+ * A backfill job that creates the embeddings of a version across many invocations,
+ * it keeps a cursor on the `_id` of the last document read so that it can be resumed.
+ */
+type BackfillJob = {
+  _id: string;
+  status: BackfillJobStatus;
+  /**
+   * Whether the job was created via the API or by the backfill schedule
+   */
+  trigger: 'api' | 'schedule';
+  /**
+   * Name of the source collection being backfilled, the jobs created before several source collections
+   * were supported have none and backfill the default source
+   */
+  source?: string;
+  /**
+   * Name of the embedding version being backfilled
+   */
+  version: string;
+  /**
+   * Number of documents read and enqueued on each invocation
+   */
+  chunkSize: number;
+  /**
+   * `_id` of the last document read, `null` before the first invocation
+   */
+  cursor: unknown;
+  /**
+   * Number of documents that needed an embedding when the job was created
+   */
+  total: number;
+  counters: BackfillJobCounters;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
+};
+
+/**
+ * Allowed transitions between statuses, keyed by the action that triggers them.
+ */
+const transitions: Record<
+  'pause' | 'resume' | 'cancel',
+  { from: BackfillJobStatus[]; to: BackfillJobStatus }
+> = {
+  pause: { from: ['running'], to: 'paused' },
+  resume: { from: ['paused'], to: 'running' },
+  cancel: { from: ['running', 'paused'], to: 'cancelled' },
+};
+
+/**
+ * Returns the collection that stores the backfill jobs.
+ */
+const getJobsCollection = () =>
+  getMongoCollection<BackfillJob>(MONGODB_BACKFILL_JOBS_COLLECTION_NAME);
+
+/**
+ * Creates a new backfill job in the `running` status.
+ *
+ * @param options - What created the job, the source collection and the embedding version to backfill, the chunk size and the number of documents to backfill
+ */
+const createBackfillJob = async (options: {
+  trigger: BackfillJob['trigger'];
+  source: string;
+  version: string;
+  chunkSize: number;
+  total: number;
+}): Promise<BackfillJob> => {
+  const now = new Date();
+  const job: BackfillJob = {
+    _id: randomUUID(),
+    status: 'running',
+    ...options,
+    cursor: null,
+    counters: { read: 0, enqueued: 0, embedded: 0, skipped: 0, failed: 0 },
+    createdAt: now,
+    updatedAt: now,
+  };
+  const collection = await getJobsCollection();
+  await collection.insertOne(job);
+  logger.info('Backfill job created', { jobId: job._id });
+
+  return job;
+};
+
+/**
+ * Returns the backfill job with the given id, or `null` if it doesn't exist.
+ *
+ * @param jobId - The id of the job
+ */
+const getBackfillJob = async (jobId: string): Promise<BackfillJob | null> => {
+  const collection = await getJobsCollection();
+
+  return collection.findOne({ _id: jobId });
+};
+
+/**
+ * Returns the most recent backfill job created by the given trigger for the given source and version, or `null` if there is none.
+ *
+ * @param trigger - What created the job
+ * @param source - The name of the source collection
+ * @param version - The name of the embedding version
+ */
+const getLatestBackfillJob = async (
+  trigger: BackfillJob['trigger'],
+  source: string,
+  version: string,
+): Promise<BackfillJob | null> => {
+  const collection = await getJobsCollection();
+
+  return collection.findOne(
+    { trigger, source, version },
+    { sort: { createdAt: -1 } },
+  );
+};
+
+/**
+ * Pauses, resumes or cancels a backfill job. Returns the updated job, or `null` if the job
+ * doesn't exist or the transition is not allowed from its current status.
+ *
+ * @param jobId - The id of the job
+ * @param action - The action to apply
+ */
+const transitionBackfillJob = async (
+  jobId: string,
+  action: keyof typeof transitions,
+): Promise<BackfillJob | null> => {
+  const { from, to } = transitions[action];
+  const collection = await getJobsCollection();
+
+  return collection.findOneAndUpdate(
+    { _id: jobId, status: { $in: from } },
+    { $set: { status: to, updatedAt: new Date() } },
+    { returnDocument: 'after' },
+  );
+};
+
+/**
+ * Saves the progress of a chunk: moves the cursor forward and increments the counters,
+ * then marks the job as completed when there are no more documents to read.
+ * The update only applies while the job is running, so that a pause or a cancellation wins.
+ *
+ * @param jobId - The id of the job
+ * @param progress - The new cursor, the counters to increment, and whether there are more documents
+ */
+const checkpointBackfillJob = async (
+  jobId: string,
+  progress: {
+    cursor: unknown;
+    read: number;
+    enqueued: number;
+    done: boolean;
+  },
+): Promise<BackfillJob | null> => {
+  const { cursor, read, enqueued, done } = progress;
+  const now = new Date();
+  const collection = await getJobsCollection();
+
+  return collection.findOneAndUpdate(
+    { _id: jobId, status: 'running' },
+    {
+      $set: {
+        ...(cursor !== null && { cursor }),
+        updatedAt: now,
+        ...(done && { status: 'completed', completedAt: now }),
+      },
+      $inc: { 'counters.read': read, 'counters.enqueued': enqueued },
+    },
+    { returnDocument: 'after' },
+  );
+};
+
+/**
+ * Increments a counter updated by the embed function, `embedded`, `skipped` or `failed`.
+ *
+ * @param jobId - The id of the job
+ * @param counter - The counter to increment
+ */
+const incrementBackfillJobCounter = async (
+  jobId: string,
+  counter: 'embedded' | 'skipped' | 'failed',
+): Promise<void> => {
+  const collection = await getJobsCollection();
+  await collection.updateOne(
+    { _id: jobId },
+    { $inc: { [`counters.${counter}`]: 1 }, $set: { updatedAt: new Date() } },
+  );
+};
+
+export {
+  checkpointBackfillJob,
+  createBackfillJob,
+  getBackfillJob,
+  getLatestBackfillJob,
+  incrementBackfillJobCounter,
+  transitionBackfillJob,
+};
+export type { BackfillJob, BackfillJobCounters, BackfillJobStatus };
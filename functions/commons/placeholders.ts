@@ -0,0 +1,24 @@
+/**
+ * Matches the `{field}` placeholders of an embedding template, dot-separated paths are supported.
+ *
+ * This module has no dependencies so that the stack can validate the templates with the same parsing
+ * as the Lambda functions.
+ */
+const PLACEHOLDER_PATTERN = /\{([\w.]+)\}/g;
+
+/**
+ * Returns the paths of the fields used by the template, i.e. `['title', 'year', 'genres', 'fullplot']`.
+ *
+ * @param template - The embedding template
+ */
+const getTemplateFields = (
+  template: { template: string },
+): string[] => [
+  ...new Set(
+    [...template.template.matchAll(PLACEHOLDER_PATTERN)].map(([, path]) =>
+      path
+    ),
+  ),
+];
+
+export { getTemplateFields, PLACEHOLDER_PATTERN };
@@ -0,0 +1,180 @@
+import { RERANK_LLM_CONCURRENCY } from './constants';
+import { getTextModel } from './generation';
+import { invokeModel, mapWithConcurrency } from './helpers';
+import { logger } from './powertools';
+
+/**
+ * A reranker that rescores the results of the first stage of the search against the query.
+ */
+interface Reranker {
+  /**
+   * Name of the reranker, i.e. the id of the model it uses
+   */
+  readonly name: string;
+  /**
+   * Returns the relevance score of each document for the query, in the same order as the documents.
+   * Higher scores are more relevant.
+   *
+   * @param query - The search query
+   * @param documents - The text of each document
+   */
+  rerank(query: string, documents: string[]): Promise<number[]>;
+}
+
+/**
+ * Bedrock-hosted rerank models, Cohere Rerank 3.5 or Amazon Rerank 1.0, which score all the documents in one call.
+ * They are invoked in their own region since they are not available in every region.
+ */
+class BedrockReranker implements Reranker {
+  public readonly name: string;
+  readonly #region?: string;
+
+  public constructor(modelId: string, region?: string) {
+    this.name = modelId;
+    this.#region = region;
+  }
+
+  public async rerank(query: string, documents: string[]): Promise<number[]> {
+    const { results } = await invokeModel<{
+      results: { index: number; relevance_score: number }[];
+    }>(this.name, {
+      query,
+      documents,
+      top_n: documents.length,
+      // Only Cohere models expect the version of the API
+      ...(this.name.startsWith('cohere.') && { api_version: 2 }),
+    }, this.#region);
+
+    const scores = documents.map(() => 0);
+    for (const { index, relevance_score } of results) {
+      scores[index] = relevance_score;
+    }
+
+    return scores;
+  }
+}
+
+/**
+ * Asks a Bedrock text model to rate the relevance of each document separately (pointwise) from 0 to 10,
+ * the ratings are requested with at most `RERANK_LLM_CONCURRENCY` concurrent calls and normalized to 0-1.
+ */
+class LlmReranker implements Reranker {
+  public readonly name: string;
+
+  public constructor(modelId: string) {
+    this.name = modelId;
+  }
+
+  public async rerank(query: string, documents: string[]): Promise<number[]> {
+    const model = getTextModel(this.name);
+
+    return mapWithConcurrency(
+      documents,
+      RERANK_LLM_CONCURRENCY,
+      async (document) => {
+        const { text } = await model.generate(
+          [
+            'On a scale from 0 to 10, how relevant is the movie below to the search query?',
+            'Answer with a single number and nothing else.',
+            '',
+            `Search query: ${query}`,
+            `Movie: ${document}`,
+          ].join('\n'),
+          { maxTokens: 5 },
+        );
+        const rating = parseFloat(text.trim());
+        if (Number.isNaN(rating)) {
+          logger.warn('Unable to parse relevance rating', { text });
+
+          return 0;
+        }
+
+        return Math.min(Math.max(rating, 0), 10) / 10;
+      },
+    );
+  }
+}
+
+/**
+ * Deterministic reranker that scores each document with the ratio of the query terms it contains,
+ * it doesn't call Bedrock and is meant for development and tests only.
+ */
+class LocalReranker implements Reranker {
+  public readonly name = 'local';
+
+  public async rerank(query: string, documents: string[]): Promise<number[]> {
+    const tokenize = (text: string) =>
+      new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []);
+    const terms = tokenize(query);
+    if (terms.size === 0) return documents.map(() => 0);
+
+    return documents.map((document) => {
+      const tokens = tokenize(document);
+      let matches = 0;
+      for (const term of terms) {
+        tokens.has(term) && matches++;
+      }
+
+      return matches / terms.size;
+    });
+  }
+}
+
+/**
+ * Configuration of a reranker, see `RerankerConfig` in the stack for the defaults.
+ */
+type RerankerConfig = {
+  provider: 'bedrock' | 'llm' | 'local';
+  modelId?: string;
+  /**
+   * Region of the Bedrock Runtime, only used by the `bedrock` provider
+   */
+  region?: string;
+};
+
+/**
+ * Creates a reranker from its configuration.
+ *
+ * @param config - The configuration of the reranker
+ */
+const createReranker = (config: RerankerConfig): Reranker => {
+  const { provider, modelId, region } = config;
+  if (provider === 'local') return new LocalReranker();
+  if (!modelId) {
+    throw new Error(`A model id is required by the ${provider} reranker`);
+  }
+  switch (provider) {
+    case 'bedrock':
+      return new BedrockReranker(modelId, region);
+    case 'llm':
+      return new LlmReranker(modelId);
+    default:
+      throw new Error(`Unknown reranker provider ${provider}`);
+  }
+};
+
+let reranker: Reranker | undefined;
+/**
+ * Returns the reranker configured with the `RERANKER_PROVIDER`, `RERANKER_MODEL_ID` and `RERANKER_REGION` environment variables
+ * set by the stack, the reranker is created once and reused. Returns `undefined` when no reranker is configured.
+ */
+const getReranker = (): Reranker | undefined => {
+  const provider = process.env.RERANKER_PROVIDER;
+  if (!provider) return;
+  reranker ??= createReranker({
+    provider: provider as RerankerConfig['provider'],
+    modelId: process.env.RERANKER_MODEL_ID,
+    region: process.env.RERANKER_REGION,
+  });
+
+  return reranker;
+};
+
+export {
+  BedrockReranker,
+  createReranker,
+  getReranker,
+  LlmReranker,
+  LocalReranker,
+};
+export type { Reranker, RerankerConfig };
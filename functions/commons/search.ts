@@ -0,0 +1,86 @@
+import type { Document, WithId } from 'mongodb';
+import { buildVectorSearchFilter, type SearchFilters } from './filters';
+import { logger } from './powertools';
+import {
+  getSourceCollection,
+  getSourceProjection,
+  type SourceCollection,
+} from './sources';
+import type { EmbeddingVersion } from './versions';
+
+/**
+ * Builds the `$vectorSearch` stage that returns the `limit` nearest neighbors of the embedding
+ * in the index of the given embedding version.
+ *
+ * @param embedding - The embedding to use for the vector search
+ * @param options - The embedding version to search, the number of results to return, the number of candidates to consider and the pre-filters to apply
+ */
+const buildVectorSearchStage = (
+  embedding: number[],
+  options: {
+    version: EmbeddingVersion;
+    limit: number;
+    numCandidates: number;
+    filters?: SearchFilters;
+  },
+): Document => {
+  const { version, limit, numCandidates, filters } = options;
+  const filter = buildVectorSearchFilter(filters);
+  logger.debug('Vector search filter', { filter });
+
+  return {
+    $vectorSearch: {
+      index: version.index,
+      path: version.path,
+      queryVector: embedding,
+      numCandidates,
+      limit,
+      ...(filter && { filter }),
+    },
+  };
+};
+
+/**
+ * Searches the MongoDB Atlas Vector Search index of the given embedding version of the source for the nearest neighbors
+ * of the embedding, each result contains the fields of the projection of the source (i.e. the `title` and the `plot`)
+ * and the vector search `score`.
+ *
+ * Set `includeEmbedding` to also return the `embedding` of each result, i.e. to compare the results
+ * with each other. It's meant for internal use and must be removed before the results are returned to the caller.
+ *
+ * @param embedding - The embedding to use for the vector search
+ * @param options - The source collection and its embedding version to search, the number of results to return, the number of candidates to consider, the pre-filters to apply and whether to include the embeddings
+ */
+const vectorSearch = async (
+  embedding: number[],
+  options: {
+    source: SourceCollection;
+    version: EmbeddingVersion;
+    limit: number;
+    numCandidates: number;
+    filters?: SearchFilters;
+    includeEmbedding?: boolean;
+  },
+): Promise<WithId<Document>[]> => {
+  const { source, version, includeEmbedding } = options;
+
+  const collection = await getSourceCollection(source);
+  const results = await collection
+    .aggregate<WithId<Document>>([
+      buildVectorSearchStage(embedding, options),
+      {
+        $project: {
+          ...getSourceProjection(source),
+          score: { $meta: 'vectorSearchScore' },
+          ...(includeEmbedding && { embedding: `$${version.path}` }),
+        },
+      },
+    ])
+    .toArray();
+
+  logger.info('Results found', { lenght: results.length });
+
+  return results;
+};
+
+export { buildVectorSearchStage, vectorSearch };
@@ -0,0 +1,170 @@
+import type { Collection, Document } from 'mongodb';
+import {
+  EMBEDDING_DEFAULT_TEMPLATE,
+  MONGODB_CHUNKS_COLLECTION_NAME,
+  MONGODB_COLLECTION_NAME,
+  MONGODB_DATABASE_NAME,
+  MONGODB_SEARCH_INDEX_NAME,
+  MONGODB_VECTOR_SEARCH_INDEX_NAME,
+} from './constants';
+import { getMongoCollection } from './helpers';
+import type { EmbeddingTemplate } from './template';
+
+/**
+ * An additional named embedding of the documents of a source, created from its own template for each embedding version
+ * of the source, i.e. an embedding of the `title` next to the one of the `plot`.
+ */
+type EmbeddingField = {
+  /**
+   * Name of the field, used to weight it in the search, i.e. `title`
+   */
+  name: string;
+  /**
+   * Template that composes the text to embed from the fields of the documents
+   */
+  template: EmbeddingTemplate;
+  /**
+   * Path of the embedding field, the metadata is stored in `<path>_meta`
+   */
+  path: string;
+  /**
+   * Name of the vector search index on the embedding field
+   */
+  index: string;
+};
+
+/**
+ * A collection whose documents are embedded and searched, see `SourceCollectionConfig` in the stack for the defaults.
+ */
+type SourceCollection = {
+  /**
+   * Name of the source, used to pick the collection to search via the `collection` parameter, i.e. `movies`
+   */
+  name: string;
+  database: string;
+  collection: string;
+  /**
+   * Template that composes the text to embed from the fields of the documents
+   */
+  template: EmbeddingTemplate;
+  /**
+   * Path of the embedding field of the first embedding version, the next versions are stored in `embeddings.<version>`
+   */
+  path: string;
+  /**
+   * Name of the vector search index on the embedding field
+   */
+  index: string;
+  /**
+   * Name of the Atlas Search index used by the `text` and `hybrid` search modes
+   */
+  textIndex: string;
+  /**
+   * Fields searched by the full-text search, along with their boost
+   */
+  textFields: { path: string; boost?: number }[];
+  /**
+   * Fields returned in the search results, along with the `_id` and the `score`
+   */
+  projection: string[];
+  /**
+   * Name of the collection that stores the passages in chunking mode, in the same database
+   */
+  chunks: string;
+  /**
+   * Additional embedding fields of the documents, searched along with the embedding of the source in multi-field search
+   */
+  fields: EmbeddingField[];
+};
+
+/**
+ * The `movies` collection of the `sample_mflix` database, used when the stack doesn't configure any source.
+ */
+const DEFAULT_SOURCE: SourceCollection = {
+  name: 'movies',
+  database: MONGODB_DATABASE_NAME,
+  collection: MONGODB_COLLECTION_NAME,
+  template: EMBEDDING_DEFAULT_TEMPLATE,
+  path: 'plot_embedding',
+  index: MONGODB_VECTOR_SEARCH_INDEX_NAME,
+  textIndex: MONGODB_SEARCH_INDEX_NAME,
+  textFields: [
+    { path: 'title', boost: 3 },
+    { path: 'cast', boost: 2 },
+    { path: 'plot' },
+  ],
+  projection: ['title', 'plot'],
+  chunks: MONGODB_CHUNKS_COLLECTION_NAME,
+  fields: [],
+};
+
+let sources: SourceCollection[] | undefined;
+/**
+ * Returns the source collections set in the `SOURCE_COLLECTIONS` environment variable by the stack,
+ * or the `movies` collection only. The first source is the default one.
+ */
+const getSources = (): SourceCollection[] => {
+  sources ??= process.env.SOURCE_COLLECTIONS
+    ? JSON.parse(process.env.SOURCE_COLLECTIONS)
+    : [DEFAULT_SOURCE];
+
+  return sources as SourceCollection[];
+};
+
+/**
+ * Returns the default source, which is the first one.
+ */
+const getDefaultSource = (): SourceCollection => getSources()[0];
+
+/**
+ * Returns the source with the given name, or the default source when no name is given.
+ * Returns `undefined` when no source has that name.
+ *
+ * @param name - The name of the source
+ */
+const getSource = (name?: string): SourceCollection | undefined =>
+  name === undefined
+    ? getDefaultSource()
+    : getSources().find((source) => source.name === name);
+
+/**
+ * Returns the source of the given namespace of a change event, or `undefined` when the collection is not a source.
+ *
+ * @param ns - The database and collection of the change event
+ */
+const getSourceByNamespace = (ns: {
+  db: string;
+  coll: string;
+}): SourceCollection | undefined =>
+  getSources().find(({ database, collection }) =>
+    database === ns.db && collection === ns.coll
+  );
+
+/**
+ * Returns the MongoDB collection of the source.
+ *
+ * @param source - The source collection
+ */
+const getSourceCollection = <T extends Document = Document>(
+  source: SourceCollection,
+): Promise<Collection<T>> =>
+  getMongoCollection<T>(source.collection, source.database);
+
+/**
+ * Returns the `$project` specification of the fields returned in the search results of the source.
+ *
+ * @param source - The source collection
+ */
+const getSourceProjection = (source: SourceCollection): Document =>
+  Object.fromEntries(source.projection.map((path) => [path, 1]));
+
+export {
+  DEFAULT_SOURCE,
+  getDefaultSource,
+  getSource,
+  getSourceByNamespace,
+  getSourceCollection,
+  getSourceProjection,
+  getSources,
+};
+export type { EmbeddingField, SourceCollection };
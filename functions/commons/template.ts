@@ -0,0 +1,135 @@
+import type { Document, Filter } from 'mongodb';
+import {
+  EMBEDDING_CHARS_PER_TOKEN,
+  EMBEDDING_DEFAULT_TEMPLATE,
+} from './constants';
+import { getFieldByPath } from './helpers';
+import { getTemplateFields, PLACEHOLDER_PATTERN } from './placeholders';
+import { logger } from './powertools';
+
+/**
+ * Template that composes the text embedded for each document from its fields, i.e. `{title} ({year}). Genres: {genres}. {fullplot}`.
+ *
+ * Each `{field}` placeholder is replaced by the value of the field (dot-separated paths are supported),
+ * arrays are joined with commas and missing fields are replaced by an empty string.
+ */
+type EmbeddingTemplate = {
+  /**
+   * Version of the template, stored next to each embedding so that a change to the template can trigger a re-embedding
+   */
+  version: string;
+  /**
+   * The template itself
+   */
+  template: string;
+};
+
+/**
+ * Converts the value of a field into the text that replaces its placeholder.
+ *
+ * @param value - The value of the field
+ */
+const formatValue = (value: unknown): string => {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return value.toString();
+  if (Array.isArray(value)) {
+    return value.map(formatValue).filter((item) => item.length > 0).join(', ');
+  }
+
+  return '';
+};
+
+/**
+ * Returns the text to embed for the document, or an empty string when none of the fields
+ * of the template has a value, in which case the document has nothing to embed.
+ *
+ * @param document - The document
+ * @param template - The embedding template
+ */
+const renderTemplate = (
+  document: unknown,
+  template: EmbeddingTemplate,
+): string => {
+  const values = new Map(
+    getTemplateFields(template).map((path) => [
+      path,
+      formatValue(getFieldByPath(document, path)).trim(),
+    ]),
+  );
+  if (![...values.values()].some((value) => value.length > 0)) return '';
+
+  return template.template.replace(
+    PLACEHOLDER_PATTERN,
+    (_match, path: string) => values.get(path) ?? '',
+  );
+};
+
+/**
+ * Returns the filter that selects the documents that have at least one of the fields of the template,
+ * these are the documents that can be embedded.
+ *
+ * @param template - The embedding template
+ */
+const getTemplateSourceFilter = (
+  template: EmbeddingTemplate,
+): Filter<Document> => ({
+  $or: getTemplateFields(template).map((path) => ({
+    [path]: { $exists: true },
+  })),
+});
+
+/**
+ * Returns the filter that selects the documents whose embedding at the given path was created with
+ * another version of the template. The embeddings created before the template was introduced have no
+ * template version, they were created from the default template.
+ *
+ * @param path - The path of the embedding field
+ * @param template - The embedding template
+ */
+const getOutdatedTemplateFilter = (
+  path: string,
+  template: EmbeddingTemplate,
+): Filter<Document> => ({
+  [path]: { $exists: true },
+  [`${path}_meta.templateVersion`]: {
+    $nin: template.version === EMBEDDING_DEFAULT_TEMPLATE.version
+      ? [template.version, null]
+      : [template.version],
+  },
+});
+
+/**
+ * Estimates the number of tokens of a text, conservatively since the tokenizers of the models are not available.
+ *
+ * @param text - The text
+ */
+const estimateTokens = (text: string): number =>
+  Math.ceil(text.length / EMBEDDING_CHARS_PER_TOKEN);
+
+/**
+ * Truncates the text so that its estimated number of tokens fits in the budget, at a word boundary when possible.
+ *
+ * @param text - The text to truncate
+ * @param maxTokens - The token budget, i.e. the input limit of the embedding model
+ */
+const truncateToTokenBudget = (text: string, maxTokens: number): string => {
+  if (estimateTokens(text) <= maxTokens) return text;
+
+  const truncated = text.slice(0, maxTokens * EMBEDDING_CHARS_PER_TOKEN);
+  const boundary = truncated.lastIndexOf(' ');
+  logger.info('Embedding input truncated', {
+    length: text.length,
+    maxTokens,
+  });
+
+  return boundary > 0 ? truncated.slice(0, boundary) : truncated;
+};
+
+export {
+  estimateTokens,
+  getOutdatedTemplateFilter,
+  getTemplateSourceFilter,
+  renderTemplate,
+  truncateToTokenBudget,
+};
+export type { EmbeddingTemplate };
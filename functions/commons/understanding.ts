@@ -0,0 +1,174 @@
+import type { SearchFilters } from './filters';
+import { getTextModel } from './generation';
+import { getStringFromEnv } from './helpers';
+import { logger } from './powertools';
+
+/**
+ * Interpretation of a search query: the semantic part that is embedded, and the structured
+ * constraints that are applied as pre-filters.
+ */
+type QueryInterpretation = {
+  /**
+   * Part of the query that describes the content of the movies, without the constraints
+   */
+  semanticQuery: string;
+  /**
+   * Constraints extracted from the query
+   */
+  filters: SearchFilters;
+  /**
+   * Whether the query was interpreted by the model, `false` when the model failed and the query is used as-is
+   */
+  understood: boolean;
+};
+
+/**
+ * Genres used in the `movies` collection, the model must pick the genres among them.
+ */
+const GENRES = [
+  'Action',
+  'Adventure',
+  'Animation',
+  'Biography',
+  'Comedy',
+  'Crime',
+  'Documentary',
+  'Drama',
+  'Family',
+  'Fantasy',
+  'Film-Noir',
+  'History',
+  'Horror',
+  'Music',
+  'Musical',
+  'Mystery',
+  'News',
+  'Romance',
+  'Sci-Fi',
+  'Short',
+  'Sport',
+  'Thriller',
+  'War',
+  'Western',
+];
+
+/**
+ * Builds the prompt that asks the model to split the query into its semantic part and its constraints.
+ *
+ * @param query - The search query
+ */
+const buildPrompt = (query: string): string =>
+  [
+    'Split the movie search query below into the part that describes the content of the movies and the constraints on the movies.',
+    'Answer with a JSON object only, with the following fields:',
+    '- "semanticQuery": the part of the query that describes the plot, themes, or mood, without the constraints below',
+    '- "year": {"gte": number, "lte": number} if the query restricts the release years, i.e. {"gte": 1990, "lte": 1999} for the 90s',
+    '- "countries": the countries where the movies were produced, as English names, i.e. ["Japan"]',
+    `- "genres": the genres of the movies, among ${GENRES.join(', ')}`,
+    '- "languages": the languages of the movies, as English names, i.e. ["Japanese"]',
+    '- "cast": the names of the actors',
+    '- "directors": the names of the directors',
+    "Omit the fields that the query doesn't mention.",
+    '',
+    `Query: ${query}`,
+  ].join('\n');
+
+/**
+ * Keeps the strings of an array returned by the model, `undefined` if there are none.
+ *
+ * @param value - The value returned by the model
+ */
+const toStrings = (value: unknown): string[] | undefined => {
+  if (!Array.isArray(value)) return;
+  const strings = value.filter((item): item is string =>
+    typeof item === 'string' && item.length > 0
+  );
+
+  return strings.length > 0 ? strings : undefined;
+};
+
+/**
+ * Keeps the integer years of a range returned by the model, `undefined` if there are none.
+ *
+ * @param value - The value returned by the model
+ */
+const toYearRange = (value: unknown): SearchFilters['year'] => {
+  if (!value || typeof value !== 'object') return;
+  const { gte, lte } = value as Record<string, unknown>;
+  const range = {
+    ...(Number.isInteger(gte) && { gte: gte as number }),
+    ...(Number.isInteger(lte) && { lte: lte as number }),
+  };
+
+  return Object.keys(range).length > 0 ? range : undefined;
+};
+
+/**
+ * Parses the answer of the model, the output of a model can't be trusted so only the known fields
+ * with the expected types are kept, and the genres must be among the genres of the collection.
+ *
+ * @param text - The answer of the model
+ * @param query - The search query, used as semantic part if the model didn't return one
+ */
+const parseInterpretation = (
+  text: string,
+  query: string,
+): QueryInterpretation => {
+  // Models sometimes wrap the JSON object in text or code fences
+  const json = text.slice(text.indexOf('{'), text.lastIndexOf('}') + 1);
+  const parsed = JSON.parse(json) as Record<string, unknown>;
+  const filters: SearchFilters = {
+    year: toYearRange(parsed.year),
+    countries: toStrings(parsed.countries),
+    genres: toStrings(parsed.genres)?.filter((genre) => GENRES.includes(genre)),
+    languages: toStrings(parsed.languages),
+    cast: toStrings(parsed.cast),
+    directors: toStrings(parsed.directors),
+  };
+
+  return {
+    semanticQuery: typeof parsed.semanticQuery === 'string'
+        && parsed.semanticQuery.trim().length > 0
+      ? parsed.semanticQuery.trim()
+      : query,
+    // Drop the constraints that were not found so that the interpretation only shows what was extracted
+    filters: Object.fromEntries(
+      Object.entries(filters).filter(([, value]) =>
+        value !== undefined && (!Array.isArray(value) || value.length > 0)
+      ),
+    ),
+    understood: true,
+  };
+};
+
+/**
+ * Asks the text model set in the `QUERY_UNDERSTANDING_MODEL_ID` environment variable to split the query
+ * into its semantic part and its structured constraints. When the model fails or returns an invalid answer,
+ * the query is used as-is without constraints so that the search still works.
+ *
+ * @param query - The search query
+ */
+const understandQuery = async (query: string): Promise<QueryInterpretation> => {
+  try {
+    const model = getTextModel(
+      getStringFromEnv('QUERY_UNDERSTANDING_MODEL_ID'),
+    );
+    const { text } = await model.generate(buildPrompt(query), {
+      maxTokens: 300,
+    });
+    const interpretation = parseInterpretation(text, query);
+    logger.info('Query understood', { query, interpretation });
+
+    return interpretation;
+  } catch (error) {
+    logger.warn('Unable to understand query, using it as-is', {
+      query,
+      error,
+    });
+
+    return { semanticQuery: query, filters: {}, understood: false };
+  }
+};
+
+export { understandQuery };
+export type { QueryInterpretation };
@@ -0,0 +1,442 @@
+import type { Document } from 'mongodb';
+import {
+  EMBEDDING_STATE_CACHE_TTL_MS,
+  MONGODB_EMBEDDING_VERSIONS_COLLECTION_NAME,
+} from './constants';
+import {
+  type EmbeddingProviderConfig,
+  getEmbeddingProviderConfigFromEnv,
+} from './embeddings';
+import { getMongoCollection } from './helpers';
+import { logger } from './powertools';
+import {
+  DEFAULT_SOURCE,
+  type EmbeddingField,
+  getSourceCollection,
+  type SourceCollection,
+} from './sources';
+import { type EmbeddingTemplate, getTemplateSourceFilter } from './template';
+
+/**
+ * A version of the embeddings, each version is stored in its own field and searched with its own index.
+ */
+type EmbeddingVersion = {
+  /**
+   * Name of the version, i.e. `v2`
+   */
+  version: string;
+  /**
+   * Path of the field that contains the embedding, the metadata is stored in `<path>_meta`
+   */
+  path: string;
+  /**
+   * Name of the vector search index on the field
+   */
+  index: string;
+  /**
+   * Configuration of the embedding provider that produces the embeddings
+   */
+  embedding: EmbeddingProviderConfig;
+};
+
+/**
+ * A version being backfilled, it becomes active once its coverage reaches the threshold.
+ */
+type EmbeddingMigrationTarget = EmbeddingVersion & {
+  /**
+   * Ratio (0-1) of documents with an embedding required before switching to the version
+   */
+  coverageThreshold: number;
+  startedAt: Date;
+};
+
+/**
+ * State of the embeddings of a source collection, stored as a single document so that switching versions is atomic.
+ */
+type EmbeddingState = {
+  _id: string;
+  /**
+   * Version used by the search
+   */
+  active: EmbeddingVersion;
+  /**
+   * Version being backfilled, if a migration is in progress
+   */
+  target?: EmbeddingMigrationTarget;
+  /**
+   * Version that was active before the last switch, until its field is cleaned up
+   */
+  previous?: EmbeddingVersion;
+  /**
+   * Date of the last switch, the containers may use the previous version until their cached state expires
+   */
+  switchedAt?: Date;
+  updatedAt: Date;
+};
+
+/**
+ * Error thrown when the embedding state doesn't allow the requested change, i.e. starting a migration
+ * while another one is in progress. It's returned as a conflict by the API.
+ */
+class EmbeddingStateConflictError extends Error {}
+
+/**
+ * Returns the id of the embedding state of the source, which is the name of the source. The state of the `movies`
+ * collection keeps the id it had before several source collections were supported.
+ *
+ * @param source - The source collection
+ */
+const getEmbeddingStateId = (source: SourceCollection): string =>
+  source.name === DEFAULT_SOURCE.name ? 'plot_embedding' : source.name;
+
+/**
+ * Returns the collection that stores the embedding state.
+ */
+const getStateCollection = () =>
+  getMongoCollection<EmbeddingState>(
+    MONGODB_EMBEDDING_VERSIONS_COLLECTION_NAME,
+  );
+
+const cachedStates = new Map<
+  string,
+  { state: EmbeddingState; expiresAt: number }
+>();
+/**
+ * Returns the embedding state of the source, creating it with the embedding field and the vector search index
+ * of the source (i.e. `plot_embedding`) and the provider set in the environment variables as active version
+ * if it doesn't exist yet.
+ *
+ * The state is cached for a short time to avoid reading it on every request, both the embedding
+ * provider and the index come from the same snapshot so a switch never mixes the two versions.
+ *
+ * @param source - The source collection
+ * @param options - Set `refresh` to bypass the cache
+ */
+const getEmbeddingState = async (
+  source: SourceCollection,
+  options: { refresh?: boolean } = {},
+): Promise<EmbeddingState> => {
+  const id = getEmbeddingStateId(source);
+  const cachedState = cachedStates.get(id);
+  if (!options.refresh && cachedState && cachedState.expiresAt > Date.now()) {
+    return cachedState.state;
+  }
+
+  const collection = await getStateCollection();
+  const state = await collection.findOneAndUpdate(
+    { _id: id },
+    {
+      $setOnInsert: {
+        active: {
+          version: 'v1',
+          path: source.path,
+          index: source.index,
+          embedding: getEmbeddingProviderConfigFromEnv(),
+        },
+        updatedAt: new Date(),
+      },
+    },
+    { upsert: true, returnDocument: 'after' },
+  );
+  if (!state) {
+    throw new Error('Unable to read embedding state');
+  }
+  cachedStates.set(id, {
+    state,
+    expiresAt: Date.now() + EMBEDDING_STATE_CACHE_TTL_MS,
+  });
+
+  return state;
+};
+
+/**
+ * Returns the given version of an embedding field of the source, the embedding fields follow the versions of the source
+ * so that they're migrated along with it. The version stored in the embedding field of the source (i.e. `plot_embedding`)
+ * uses the path and the index of the field, the next ones use `<path>_<version>` and `<index>_<version>`.
+ *
+ * @param source - The source collection
+ * @param field - The embedding field
+ * @param version - The embedding version of the source
+ */
+const getEmbeddingFieldVersion = (
+  source: SourceCollection,
+  field: EmbeddingField,
+  version: EmbeddingVersion,
+): EmbeddingVersion =>
+  version.path === source.path
+    ? { ...version, path: field.path, index: field.index }
+    : {
+      ...version,
+      path: `${field.path}_${version.version}`,
+      index: `${field.index}_${version.version}`,
+    };
+
+/**
+ * Returns the versions that must be kept up to date when a document changes,
+ * which are the active version and the version being backfilled, if any.
+ *
+ * @param state - The embedding state
+ */
+const getLiveEmbeddingVersions = (state: EmbeddingState): EmbeddingVersion[] =>
+  state.target ? [state.active, state.target] : [state.active];
+
+/**
+ * Reads the migration target from the `EMBEDDING_MIGRATION` environment variable set by the stack.
+ */
+const getMigrationTargetFromEnv = ():
+  | Omit<EmbeddingMigrationTarget, 'startedAt'>
+  | undefined =>
+{
+  const value = process.env.EMBEDDING_MIGRATION;
+  if (!value) return;
+
+  const { version, path, index, coverageThreshold, embedding } = JSON.parse(
+    value,
+  );
+
+  return {
+    version,
+    path: path ?? `embeddings.${version}`,
+    index,
+    coverageThreshold: coverageThreshold ?? 0.99,
+    embedding,
+  };
+};
+
+/**
+ * Starts backfilling the version configured in the stack in the source, from now on the embed function writes
+ * embeddings for both the active and the target version. Starting an already started migration is a no-op.
+ *
+ * @param source - The source collection
+ */
+const startEmbeddingMigration = async (
+  source: SourceCollection,
+): Promise<EmbeddingState> => {
+  const target = getMigrationTargetFromEnv();
+  if (!target) {
+    throw new EmbeddingStateConflictError(
+      'No embedding migration is configured',
+    );
+  }
+
+  const state = await getEmbeddingState(source, { refresh: true });
+  if (state.active.version === target.version) {
+    throw new EmbeddingStateConflictError(
+      `Version ${target.version} is already active`,
+    );
+  }
+  if (state.target && state.target.version !== target.version) {
+    throw new EmbeddingStateConflictError(
+      `A migration to version ${state.target.version} is already in progress`,
+    );
+  }
+
+  const collection = await getStateCollection();
+  await collection.updateOne(
+    { _id: getEmbeddingStateId(source), target: { $exists: false } },
+    {
+      $set: {
+        target: { ...target, startedAt: new Date() },
+        updatedAt: new Date(),
+      },
+    },
+  );
+  logger.info('Embedding migration started', {
+    source: source.name,
+    target,
+  });
+
+  return getEmbeddingState(source, { refresh: true });
+};
+
+/**
+ * Returns the coverage of an embedding at the given path, which is the ratio of documents with a field
+ * of its template that have the embedding.
+ *
+ * @param source - The source collection
+ * @param path - The path of the embedding
+ * @param template - The template of the embedding
+ */
+const getPathCoverage = async (
+  source: SourceCollection,
+  path: string,
+  template: EmbeddingTemplate,
+): Promise<{ total: number; embedded: number; coverage: number }> => {
+  const collection = await getSourceCollection(source);
+  const [total, embedded] = await Promise.all([
+    collection.countDocuments(getTemplateSourceFilter(template)),
+    collection.countDocuments({
+      ...getTemplateSourceFilter(template),
+      [path]: { $exists: true },
+    }),
+  ]);
+
+  return { total, embedded, coverage: total === 0 ? 1 : embedded / total };
+};
+
+/**
+ * Returns the coverage of the given version in the source, which is the ratio of documents with a field
+ * of the embedding template that have an embedding for the version. When the source has embedding fields,
+ * the coverage of each field is returned as well and the overall coverage is the lowest of them.
+ *
+ * @param source - The source collection
+ * @param version - The version to check
+ */
+const getEmbeddingCoverage = async (
+  source: SourceCollection,
+  version: EmbeddingVersion,
+): Promise<{
+  total: number;
+  embedded: number;
+  coverage: number;
+  fields?: Record<
+    string,
+    { total: number; embedded: number; coverage: number }
+  >;
+}> => {
+  const [coverage, ...fieldCoverages] = await Promise.all([
+    getPathCoverage(source, version.path, source.template),
+    ...source.fields.map((field) =>
+      getPathCoverage(
+        source,
+        getEmbeddingFieldVersion(source, field, version).path,
+        field.template,
+      )
+    ),
+  ]);
+  if (source.fields.length === 0) return coverage;
+
+  return {
+    ...coverage,
+    coverage: Math.min(
+      coverage.coverage,
+      ...fieldCoverages.map(({ coverage }) => coverage),
+    ),
+    fields: Object.fromEntries(
+      source.fields.map(({ name }, index) => [name, fieldCoverages[index]]),
+    ),
+  };
+};
+
+/**
+ * Atomically makes the target version the active one, the previously active version is kept
+ * as `previous` so that its field can be cleaned up later.
+ *
+ * @param source - The source collection
+ * @param version - The name of the target version, used to guard against concurrent switches
+ */
+const switchEmbeddingVersion = async (
+  source: SourceCollection,
+  version: string,
+): Promise<EmbeddingState> => {
+  const collection = await getStateCollection();
+  const id = getEmbeddingStateId(source);
+  const state = await collection.findOneAndUpdate(
+    { _id: id, 'target.version': version },
+    [
+      {
+        $set: {
+          previous: '$active',
+          active: {
+            version: '$target.version',
+            path: '$target.path',
+            index: '$target.index',
+            embedding: '$target.embedding',
+          },
+          switchedAt: '$$NOW',
+          updatedAt: '$$NOW',
+        },
+      },
+      { $unset: 'target' },
+    ],
+    { returnDocument: 'after' },
+  );
+  if (!state) {
+    throw new EmbeddingStateConflictError(
+      `Version ${version} is not being backfilled`,
+    );
+  }
+  cachedStates.delete(id);
+  logger.info('Embedding version switched', {
+    source: source.name,
+    active: state.active,
+  });
+
+  return state;
+};
+
+/**
+ * Removes the embedding field and its metadata of the previously active version from all documents of the source,
+ * then forgets the version. Since the containers may use the previous version until their cached state expires,
+ * the cleanup is refused until `EMBEDDING_STATE_CACHE_TTL_MS` has passed since the switch.
+ *
+ * @param source - The source collection
+ */
+const cleanupEmbeddingVersion = async (
+  source: SourceCollection,
+): Promise<{ version: string; cleanedUp: number }> => {
+  const state = await getEmbeddingState(source, { refresh: true });
+  const { previous: version, switchedAt } = state;
+  if (!version) {
+    throw new EmbeddingStateConflictError('No previous version to clean up');
+  }
+  if (
+    version.path === state.active.path || version.path === state.target?.path
+  ) {
+    throw new EmbeddingStateConflictError(
+      `The field of version ${version.version} is still in use`,
+    );
+  }
+  const waitMs = (switchedAt?.getTime() ?? 0) + EMBEDDING_STATE_CACHE_TTL_MS
+    - Date.now();
+  if (waitMs > 0) {
+    throw new EmbeddingStateConflictError(
+      `Version ${version.version} may still be in use, retry in ${
+        Math.ceil(waitMs / 1000)
+      } seconds`,
+    );
+  }
+
+  // The versions of the embedding fields are removed along with the version of the source
+  const paths = [
+    version.path,
+    ...source.fields.map((field) =>
+      getEmbeddingFieldVersion(source, field, version).path
+    ),
+  ];
+  const collection = await getSourceCollection(source);
+  const { modifiedCount } = await collection.updateMany(
+    { $or: paths.map((path) => ({ [path]: { $exists: true } })) } as Document,
+    {
+      $unset: Object.fromEntries(
+        paths.flatMap((path) => [[path, ''], [`${path}_meta`, '']]),
+      ),
+    },
+  );
+  const id = getEmbeddingStateId(source);
+  const stateCollection = await getStateCollection();
+  await stateCollection.updateOne(
+    { _id: id, 'previous.version': version.version },
+    { $unset: { previous: '' }, $set: { updatedAt: new Date() } },
+  );
+  cachedStates.delete(id);
+  logger.info('Embedding version cleaned up', {
+    source: source.name,
+    version: version.version,
+    modifiedCount,
+  });
+
+  return { version: version.version, cleanedUp: modifiedCount };
+};
+
+export {
+  cleanupEmbeddingVersion,
+  EmbeddingStateConflictError,
+  getEmbeddingCoverage,
+  getEmbeddingFieldVersion,
+  getEmbeddingState,
+  getLiveEmbeddingVersions,
+  startEmbeddingMigration,
+  switchEmbeddingVersion,
+};
+export type { EmbeddingMigrationTarget, EmbeddingState, EmbeddingVersion };
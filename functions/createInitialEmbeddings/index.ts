@@ -1,26 +1,150 @@
 import type { LambdaInterface } from '@aws-lambda-powertools/commons';
 import type { SendMessageBatchCommandInput } from '@aws-sdk/client-sqs';
 import type { APIGatewayEvent, Context } from 'aws-lambda';
-import type { Document, WithId } from 'mongodb';
+import { BSON, type Document, type Filter, type WithId } from 'mongodb';
 import { randomUUID } from 'node:crypto';
-import { getMongoCollection, sendMessagesToQueue } from '../commons/helpers';
+import { getOutdatedChunksFilter } from '../commons/chunks';
+import { BACKFILL_DEFAULT_CHUNK_SIZE } from '../commons/constants';
+import {
+  disableRule,
+  getQueueDepth,
+  getStringFromEnv,
+  sendMessagesToQueue,
+} from '../commons/helpers';
+import {
+  type BackfillJob,
+  checkpointBackfillJob,
+  createBackfillJob,
+  getBackfillJob,
+  getLatestBackfillJob,
+  transitionBackfillJob,
+} from '../commons/jobs';
 import { logger, tracer } from '../commons/powertools';
+import {
+  getSource,
+  getSourceCollection,
+  getSources,
+  type SourceCollection,
+} from '../commons/sources';
+import {
+  type EmbeddingTemplate,
+  getOutdatedTemplateFilter,
+  getTemplateSourceFilter,
+} from '../commons/template';
+import {
+  type EmbeddingVersion,
+  getEmbeddingCoverage,
+  getEmbeddingFieldVersion,
+  getEmbeddingState,
+  getLiveEmbeddingVersions,
+} from '../commons/versions';
+
+/**
+ * Event sent by the backfill schedule, see `BackfillScheduleConstruct`.
+ */
+type ScheduledBackfillEvent = {
+  source: 'backfill-schedule';
+};
+
+/**
+ * Returns whether the Lambda function was invoked by the backfill schedule rather than by API Gateway.
+ *
+ * @param event - The event the Lambda function was invoked with
+ */
+const isScheduledBackfillEvent = (
+  event: APIGatewayEvent | ScheduledBackfillEvent,
+): event is ScheduledBackfillEvent =>
+  (event as ScheduledBackfillEvent).source === 'backfill-schedule';
+
+/**
+ * Returns the filter that selects the documents that have at least one field of the template but no embedding
+ * at the given path, or an embedding created with another version of the template.
+ *
+ * @param path - The path of the embedding field
+ * @param template - The template of the embedding
+ * @param outdated - Additional filters that select outdated embeddings, if any
+ */
+const getPendingEmbeddingFilter = (
+  path: string,
+  template: EmbeddingTemplate,
+  outdated: Filter<Document>[] = [],
+): Filter<Document> => ({
+  $and: [
+    getTemplateSourceFilter(template),
+    {
+      $or: [
+        { [path]: { $exists: false } },
+        getOutdatedTemplateFilter(path, template),
+        ...outdated,
+      ],
+    },
+  ],
+});
+
+/**
+ * Returns the filter that selects the documents of the source that have at least one field of its embedding template
+ * but no embedding for the given version, or an embedding created with another version of the template
+ * or, in chunking mode, with another chunking configuration. The documents whose embedding fields are missing
+ * or outdated for the version are selected as well.
+ *
+ * @param source - The source collection
+ * @param version - The embedding version to backfill
+ */
+const getPendingDocumentsFilter = (
+  source: SourceCollection,
+  version: EmbeddingVersion,
+): Filter<Document> => {
+  const outdatedChunks = getOutdatedChunksFilter(version.path);
+  const filter = getPendingEmbeddingFilter(
+    version.path,
+    source.template,
+    outdatedChunks ? [outdatedChunks] : [],
+  );
+  if (source.fields.length === 0) return filter;
+
+  return {
+    $or: [
+      filter,
+      ...source.fields.map((field) =>
+        getPendingEmbeddingFilter(
+          getEmbeddingFieldVersion(source, field, version).path,
+          field.template,
+        )
+      ),
+    ],
+  };
+};
 
 class LambdaFunction implements LambdaInterface {
   /**
-   * Reads documents from MongoDB Atlas that have a `plot` field but no `plot_embedding` field,
-   * these are the documents that need to be processed.
+   * Reads documents of the source from MongoDB Atlas that have a field of the embedding template but no up-to-date embedding
+   * for the given version (i.e. no `plot_embedding` field), these are the documents that need to be processed.
+   *
+   * When a cursor is given, only the documents with an `_id` greater than the cursor are read,
+   * in ascending `_id` order so that a backfill job can resume where it stopped.
    *
+   * @param source - The source collection
    * @param count - The number of documents to read from MongoDB
+   * @param version - The embedding version to backfill
+   * @param cursor - The `_id` of the last document read, if any
    */
   @tracer.captureMethod({
     subSegmentName: '### readDocuments',
     captureResponse: false,
   })
-  async readDocuments(count: number): Promise<WithId<Document>[]> {
-    const collection = await getMongoCollection();
+  async readDocuments(
+    source: SourceCollection,
+    count: number,
+    version: EmbeddingVersion,
+    cursor: unknown = null,
+  ): Promise<WithId<Document>[]> {
+    const collection = await getSourceCollection(source);
     const documents = await collection
-      .find({ plot: { $exists: true }, plot_embedding: { $exists: false } })
+      .find({
+        ...getPendingDocumentsFilter(source, version),
+        ...(cursor !== null && { _id: { $gt: cursor } }),
+      } as Filter<Document>)
+      .sort({ _id: 1 })
       .limit(count)
       .toArray();
 
@@ -30,35 +154,49 @@ class LambdaFunction implements LambdaInterface {
   }
 
   /**
-   * Sends the documents to SQS in batches using a reduced EventBridge format.
+   * Sends the documents to SQS in batches using a reduced EventBridge format, the events carry the namespace
+   * of the source so that the embed function routes them to its pipeline, like the events of the trigger. They are
+   * marked with the embedding version to backfill so that only that version is embedded,
+   * and with the id of the backfill job, if any, so that the embed function can update its counters.
+   * The events are serialized as Extended JSON so that the fields of the documents, including their `_id`, keep their BSON type.
    *
+   * @param source - The source collection of the documents
    * @param documents - The documents to send to SQS
+   * @param version - The embedding version to backfill
+   * @param jobId - The id of the backfill job, if any
    * @param batchSize - The number of documents to send in each batch
    */
   @tracer.captureMethod({ subSegmentName: '### sendToQueueInBatches' })
   async sendToQueueInBatches(
+    source: SourceCollection,
     documents: WithId<Document>[],
+    version: EmbeddingVersion,
+    jobId?: string,
     batchSize: number = 10,
   ): Promise<number> {
     let sentCount = 0;
     let batch: SendMessageBatchCommandInput['Entries'] = [];
-    for (const document of documents) {
+    for (const [index, document] of documents.entries()) {
       batch.push({
         Id: randomUUID(),
-        MessageBody: JSON.stringify({
+        MessageBody: BSON.EJSON.stringify({
           version: '0',
           id: randomUUID(),
-          'detail-type': 'MongoDB Database Trigger for sample_mflix.movies',
+          'detail-type':
+            `MongoDB Database Trigger for ${source.database}.${source.collection}`,
           detail: {
             operationType: 'update',
+            ns: { db: source.database, coll: source.collection },
             fullDocument: document,
             documentKey: { _id: document._id },
+            versions: [version.version],
+            ...(jobId && { jobId }),
           },
         }),
       });
-      if (batch.length === batchSize) {
-        await sendMessagesToQueue(batch);
-        sentCount += batch.length;
+      // Send the batch when it's full or when it's the last (partial) batch
+      if (batch.length === batchSize || index === documents.length - 1) {
+        sentCount += await sendMessagesToQueue(batch);
         batch = [];
       }
     }
@@ -67,10 +205,274 @@ class LambdaFunction implements LambdaInterface {
   }
 
   /**
-   * Receives an API Gateway event and reads documents from MongoDB Atlas that have a `plot` field but no `plot_embedding` field,
-   * these are the documents that need to be processed. The documents are then sent to SQS in batches using a reduced EventBridge format.
+   * Finds the embedding version of the source to backfill among its live versions, by default the active version is used.
+   *
+   * @param source - The source collection
+   * @param versionName - The name of the version, if any
+   */
+  async findVersion(
+    source: SourceCollection,
+    versionName?: string,
+  ): Promise<EmbeddingVersion | undefined> {
+    const state = await getEmbeddingState(source);
+
+    return versionName
+      ? getLiveEmbeddingVersions(state).find(
+        ({ version }) => version === versionName,
+      )
+      : state.active;
+  }
+
+  /**
+   * Resolves the embedding version of the source to backfill, throws an error if it's not a live version.
+   *
+   * @param source - The source collection
+   * @param versionName - The name of the version, if any
+   */
+  async getVersion(
+    source: SourceCollection,
+    versionName?: string,
+  ): Promise<EmbeddingVersion> {
+    const version = await this.findVersion(source, versionName);
+    if (!version) {
+      throw new Error(`Version ${versionName} is not a live version`);
+    }
+
+    return version;
+  }
+
+  /**
+   * Resolves the source collection of a backfill job, the jobs created before several source collections
+   * were supported backfill the default source.
+   *
+   * @param job - The backfill job
+   */
+  getJobSource(job: BackfillJob): SourceCollection {
+    const source = getSource(job.source);
+    if (!source) {
+      throw new Error(`Collection ${job.source} is not a source collection`);
+    }
+
+    return source;
+  }
+
+  /**
+   * Runs the next chunk of a backfill job: reads the documents after the cursor, enqueues them,
+   * then saves the new cursor and counters. The job is completed once there are no more documents.
+   *
+   * @param job - The backfill job, it must be running
+   * @param chunkSize - The number of documents to read, defaults to the chunk size of the job
+   */
+  @tracer.captureMethod({ subSegmentName: '### runBackfillJob' })
+  async runBackfillJob(
+    job: BackfillJob,
+    chunkSize: number = job.chunkSize,
+  ): Promise<BackfillJob | null> {
+    if (job.status !== 'running') return job;
+
+    const source = this.getJobSource(job);
+    const version = await this.getVersion(source, job.version);
+    const documents = await this.readDocuments(
+      source,
+      chunkSize,
+      version,
+      job.cursor,
+    );
+    const enqueued = await this.sendToQueueInBatches(
+      source,
+      documents,
+      version,
+      job._id,
+    );
+
+    return checkpointBackfillJob(job._id, {
+      cursor: documents.at(-1)?._id ?? null,
+      read: documents.length,
+      enqueued,
+      done: documents.length < chunkSize,
+    });
+  }
+
+  /**
+   * Disables the backfill schedule so that it stops invoking the function.
+   *
+   * @param reason - Why the schedule is stopped, for logging purposes
+   */
+  async stopSchedule(reason: string): Promise<void> {
+    logger.info('Stopping backfill schedule', { reason });
+    await disableRule(getStringFromEnv('BACKFILL_SCHEDULE_RULE_NAME'));
+  }
+
+  /**
+   * Runs the next chunk of the backfill job created by the schedule, creating the job if needed.
+   * The sources are backfilled one after the other, in the order of the configuration. In each source,
+   * the version being migrated to is backfilled first, then the active version.
+   *
+   * The queue depth and the number of pending documents are used as backpressure signals:
+   * - when no document is pending, the schedule is stopped
+   * - when the queue depth is above the limit, the run is skipped, otherwise the chunk is capped
+   *   so that the queue never holds more than the limit
+   * - a new job is only created once the events of the previous one have been processed
+   */
+  @tracer.captureMethod({ subSegmentName: '### runScheduledBackfill' })
+  async runScheduledBackfill() {
+    const maxQueueDepth = parseInt(
+      getStringFromEnv('BACKFILL_MAX_QUEUE_DEPTH'),
+    );
+    const chunkSize = parseInt(getStringFromEnv('BACKFILL_CHUNK_SIZE'));
+    // Pick the first source that has documents to embed
+    let source: SourceCollection | undefined;
+    let version: EmbeddingVersion | undefined;
+    let pending = 0;
+    for (const candidate of getSources()) {
+      const state = await getEmbeddingState(candidate);
+      const candidateVersion = state.target ?? state.active;
+      const collection = await getSourceCollection(candidate);
+      const count = await collection.countDocuments(
+        getPendingDocumentsFilter(candidate, candidateVersion),
+      );
+      if (count > 0) {
+        source = candidate;
+        version = candidateVersion;
+        pending = count;
+        break;
+      }
+    }
+    if (!source || !version) {
+      await this.stopSchedule('All documents have an embedding');
+
+      return { status: 'stopped', pending };
+    }
+
+    const queueDepth = await getQueueDepth();
+    const result = {
+      collection: source.name,
+      version: version.version,
+      pending,
+      queueDepth,
+    };
+    if (queueDepth >= maxQueueDepth) {
+      logger.info('Queue depth above the limit, skipping run', result);
+
+      return { status: 'throttled', ...result };
+    }
+
+    let job = await getLatestBackfillJob(
+      'schedule',
+      source.name,
+      version.version,
+    );
+    if (job?.status === 'paused') {
+      return { status: 'paused', jobId: job._id, ...result };
+    }
+    if (job?.status === 'cancelled') {
+      await this.stopSchedule('The scheduled backfill job was cancelled');
+
+      return { status: 'stopped', jobId: job._id, ...result };
+    }
+    if (!job || job.status === 'completed') {
+      // Wait for the events of the previous job to be processed, so that the same documents aren't enqueued twice
+      if (queueDepth > 0) {
+        return { status: 'waiting', ...result };
+      }
+      // The documents left keep failing, stop instead of enqueuing them over and over
+      if (job && job.counters.embedded === 0) {
+        await this.stopSchedule('The previous job made no progress');
+
+        return { status: 'stopped', jobId: job._id, ...result };
+      }
+      job = await createBackfillJob({
+        trigger: 'schedule',
+        source: source.name,
+        version: version.version,
+        chunkSize,
+        total: pending,
+      });
+    }
+
+    const updatedJob = await this.runBackfillJob(
+      job,
+      Math.min(chunkSize, maxQueueDepth - queueDepth),
+    );
+
+    return { status: 'running', job: updatedJob ?? job, ...result };
+  }
+
+  /**
+   * Returns the response to a request for a version that is not a live version of the source.
    *
+   * @param source - The source collection
+   */
+  async unknownVersion(
+    source: SourceCollection,
+  ): Promise<{ statusCode: number; body: string }> {
+    const versions = getLiveEmbeddingVersions(await getEmbeddingState(source))
+      .map(({ version }) => version);
+
+    return {
+      statusCode: 400,
+      body: JSON.stringify({
+        message: `version must be among ${versions.join(', ')}`,
+      }),
+    };
+  }
+
+  /**
+   * Returns the response to a request for a collection that is not a source collection.
+   */
+  unknownSource(): { statusCode: number; body: string } {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({
+        message: `collection must be among ${
+          getSources().map(({ name }) => name).join(', ')
+        }`,
+      }),
+    };
+  }
+
+  /**
+   * Returns the status of a backfill job along with the coverage of its version and an estimate
+   * of the time left, based on the rate at which the documents have been embedded so far.
+   *
+   * @param job - The backfill job
+   */
+  async getBackfillJobStatus(job: BackfillJob) {
+    const source = this.getJobSource(job);
+    const version = await this.getVersion(source, job.version).catch(() =>
+      undefined
+    );
+    const coverage = version && (await getEmbeddingCoverage(source, version));
+
+    const { embedded, skipped = 0, failed } = job.counters;
+    const processed = embedded + skipped + failed;
+    const elapsedMs = Date.now() - job.createdAt.getTime();
+    const remaining = Math.max(job.total - processed, 0);
+    const etaSeconds = job.status === 'cancelled' || remaining === 0
+      ? 0
+      : embedded > 0
+      ? Math.round((remaining * elapsedMs) / embedded / 1000)
+      : null;
+
+    return {
+      ...job,
+      progress: job.total === 0 ? 1 : processed / job.total,
+      coverage,
+      etaSeconds,
+    };
+  }
+
+  /**
+   * Receives an API Gateway event and creates embeddings for the documents of the collection.
+   *
+   * Using the `GET /create-initial-embeddings` route, reads documents from MongoDB Atlas that have a field of the
+   * embedding template but no up-to-date embedding, these are the documents that need to be processed. The documents are then sent to SQS
+   * in batches using a reduced EventBridge format.
    * Via the `count` query string parameter, you can specify how many documents to read from MongoDB Atlas.
+   * Via the `version` query string parameter, you can specify the embedding version to backfill, by default
+   * the active version is used. During a migration, use the version being migrated to.
+   * Via the `collection` query string parameter, you can specify the source collection to backfill, by default
+   * the default source is used.
    * @example
    * ```sh
    * curl --request POST \
@@ -82,31 +484,131 @@ class LambdaFunction implements LambdaInterface {
    * | jq .
    * ```
    *
-   * @param event - API Gateway event
+   * To backfill the whole collection across many invocations, use the backfill job routes:
+   * - `POST /backfill` creates a job and runs its first chunk, the body can contain `chunkSize`, `version` and `collection`
+   * - `POST /backfill/{jobId}` applies an action to the job: `run` the next chunk, `pause`, `resume` or `cancel`
+   * - `GET /backfill/{jobId}` returns the status of the job, its counters, the coverage and the ETA
+   *
+   * When invoked by the backfill schedule, runs the next chunk of the scheduled backfill instead, see `runScheduledBackfill`.
+   *
+   * @param event - API Gateway event, or the event sent by the backfill schedule
    * @param _context - Lambda context (unused)
    */
   @logger.injectLambdaContext({ logEvent: true })
   @tracer.captureLambdaHandler()
   async handler(
-    event: APIGatewayEvent,
+    event: APIGatewayEvent | ScheduledBackfillEvent,
     _context: Context,
-  ): Promise<{ statusCode: 200; body: string }> {
-    const { body, queryStringParameters } = event;
-    const { count } = queryStringParameters || {};
+  ): Promise<{ statusCode: number; body: string }> {
+    if (isScheduledBackfillEvent(event)) {
+      const result = await this.runScheduledBackfill();
+      logger.info('Scheduled backfill run', { result });
+
+      return { statusCode: 200, body: JSON.stringify(result) };
+    }
+
+    const {
+      body,
+      queryStringParameters,
+      pathParameters,
+      resource,
+      httpMethod,
+    } = event;
 
     try {
-      const documents = await this.readDocuments(count ? parseInt(count) : 50);
-      const sentCount = await this.sendToQueueInBatches(documents);
+      if (resource === '/backfill' && httpMethod === 'POST') {
+        const {
+          chunkSize = BACKFILL_DEFAULT_CHUNK_SIZE,
+          version: versionName,
+          collection: sourceName,
+        } = JSON.parse(body || '{}');
+        const source = getSource(sourceName);
+        if (!source) return this.unknownSource();
+        const version = await this.findVersion(source, versionName);
+        if (!version) return this.unknownVersion(source);
+        const collection = await getSourceCollection(source);
+        const job = await createBackfillJob({
+          trigger: 'api',
+          source: source.name,
+          version: version.version,
+          chunkSize,
+          total: await collection.countDocuments(
+            getPendingDocumentsFilter(source, version),
+          ),
+        });
+        const updatedJob = await this.runBackfillJob(job);
+
+        return {
+          statusCode: 201,
+          body: JSON.stringify(updatedJob ?? job),
+        };
+      }
+
+      if (resource === '/backfill/{jobId}') {
+        const jobId = pathParameters?.jobId || '';
+        let job = await getBackfillJob(jobId);
+        if (!job) {
+          return {
+            statusCode: 404,
+            body: JSON.stringify({ message: `Job ${jobId} not found` }),
+          };
+        }
+
+        if (httpMethod === 'POST') {
+          const { action } = JSON.parse(body || '{}');
+          if (action !== 'run') {
+            job = await transitionBackfillJob(jobId, action);
+            if (!job) {
+              return {
+                statusCode: 409,
+                body: JSON.stringify({
+                  message: `Unable to ${action} job ${jobId}`,
+                }),
+              };
+            }
+          }
+          if (action === 'run' || action === 'resume') {
+            job = (await this.runBackfillJob(job)) ?? job;
+          }
+        }
+
+        return {
+          statusCode: 200,
+          body: JSON.stringify(await this.getBackfillJobStatus(job)),
+        };
+      }
+
+      const {
+        count,
+        version: versionName,
+        collection: sourceName,
+      } = queryStringParameters || {};
+      const source = getSource(sourceName);
+      if (!source) return this.unknownSource();
+      const version = await this.findVersion(source, versionName);
+      if (!version) return this.unknownVersion(source);
+      const documents = await this.readDocuments(
+        source,
+        count ? parseInt(count) : 50,
+        version,
+      );
+      const sentCount = await this.sendToQueueInBatches(
+        source,
+        documents,
+        version,
+      );
 
       return {
         statusCode: 200,
         body: JSON.stringify({
+          collection: source.name,
+          version: version.version,
           read: documents.length,
           sent: sentCount,
         }),
       };
     } catch (error) {
-      logger.error('Unble to get embedding or search index', error as Error);
+      logger.error('Unable to get embedding or search index', error as Error);
       throw error;
     }
   }
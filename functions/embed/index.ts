@@ -11,43 +11,405 @@ import type {
   SQSEvent,
   SQSRecord,
 } from 'aws-lambda';
-import { ObjectId } from 'mongodb';
-import { getEmbedding, getMongoCollection } from '../commons/helpers';
+import { BSON, type Document, type Filter } from 'mongodb';
+import { getOrCreateEmbedding, getTextHash } from '../commons/cache';
+import {
+  type ChunkingConfig,
+  deleteChunks,
+  getChunkingConfig,
+  getChunkingSignature,
+  splitIntoPassages,
+  writeChunks,
+} from '../commons/chunks';
+import {
+  CHUNK_EMBEDDING_CONCURRENCY,
+  EMBEDDING_DEFAULT_FIELD_NAME,
+  EMBEDDING_DEFAULT_TEMPLATE,
+  EVENT_QUEUE_MAX_RECEIVE_COUNT,
+} from '../commons/constants';
+import { getEmbeddingProvider } from '../commons/embeddings';
+import {
+  formatDocumentId,
+  getFieldByPath,
+  mapWithConcurrency,
+} from '../commons/helpers';
+import {
+  getIdempotencyKey,
+  type IdempotencyStore,
+  MongoIdempotencyStore,
+} from '../commons/idempotency';
+import { incrementBackfillJobCounter } from '../commons/jobs';
+import { getTemplateFields } from '../commons/placeholders';
 import { logger, tracer } from '../commons/powertools';
+import {
+  getDefaultSource,
+  getSourceByNamespace,
+  getSourceCollection,
+  type SourceCollection,
+} from '../commons/sources';
+import { type EmbeddingTemplate, renderTemplate } from '../commons/template';
+import {
+  type EmbeddingVersion,
+  getEmbeddingFieldVersion,
+  getEmbeddingState,
+  getLiveEmbeddingVersions,
+} from '../commons/versions';
+
+/**
+ * Change event sent by the MongoDB Atlas Trigger, or by the backfill in a reduced format.
+ */
+type ChangeEventDetail = {
+  /**
+   * Resume token of the change event, identical when the trigger re-sends the same event
+   */
+  _id?: { _data: string };
+  /**
+   * Time of the operation in the cluster, set by the trigger
+   */
+  clusterTime?: unknown;
+  operationType: string;
+  fullDocument?: Record<string, unknown>;
+  /**
+   * `_id` of the document with its BSON type, the events are Extended JSON
+   */
+  documentKey: { _id: unknown };
+  /**
+   * Database and collection of the document, used to route the event to its source collection
+   */
+  ns?: { db: string; coll: string };
+  updateDescription?: {
+    updatedFields?: Record<string, unknown>;
+    removedFields?: string[];
+  };
+  /**
+   * Embedding versions to update, set by the backfill
+   */
+  versions?: string[];
+  /**
+   * Id of the backfill job that enqueued the event, set by the backfill
+   */
+  jobId?: string;
+};
+
+/**
+ * Action to take for a change event, along with the reason for logging purposes.
+ */
+type ChangeEventAction = {
+  action: 'embed' | 'unset' | 'delete' | 'skip';
+  reason: string;
+};
+
+/**
+ * Embeddings of a document composed from the same template and written together: the live versions
+ * of the embedding of the source, or the embedding of one of its embedding fields.
+ */
+type EmbeddingTarget = {
+  /**
+   * Name of the embedding field, `default` for the embedding of the source
+   */
+  name: string;
+  template: EmbeddingTemplate;
+  action: ChangeEventAction['action'];
+  /**
+   * Versions to update, at the paths of the embedding field for the embedding fields
+   */
+  versions: EmbeddingVersion[];
+  /**
+   * Chunking configuration, only the embedding of the source is chunked
+   */
+  chunking: ChunkingConfig | null;
+};
+
+/**
+ * Returns the identity of a change event, which stays the same when the event is delivered again: the resume token
+ * or the cluster time of the change events of the trigger, or the id of the EventBridge event for the events of the backfill.
+ *
+ * @param payload - The EventBridge event that contains the change event
+ */
+const getChangeEventId = (
+  payload: EventBridgeEvent<string, ChangeEventDetail>,
+): string => {
+  const { _id, clusterTime } = payload.detail;
+  if (_id?._data) return _id._data;
+  if (clusterTime !== undefined) return JSON.stringify(clusterTime);
+
+  return payload.id;
+};
+
+/**
+ * Returns whether a field path touches one of the fields of the embedding template,
+ * i.e. `plot`, a nested field of it, or the parent of a nested field of the template.
+ *
+ * @param path - The dot-separated path of the changed field
+ * @param template - The embedding template of the source collection
+ */
+const isEmbeddingSourceField = (path: string, template: EmbeddingTemplate) =>
+  getTemplateFields(template).some((field) =>
+    path === field
+    || path.startsWith(`${field}.`)
+    || field.startsWith(`${path}.`)
+  );
+
+/**
+ * Decides what to do with a change event based on its operation type:
+ * - inserts and replaces are embedded, unless none of the fields of the embedding template has a value
+ *   in which case the embedding is unset
+ * - updates are embedded only when a field of the template changed or was removed, and the embedding
+ *   is unset when the remaining fields of the template have no value;
+ *   updates without an update description (i.e. from the backfill) are always embedded
+ * - deletes clean up the data related to the document
+ * - any other operation type is skipped
+ *
+ * @param detail - The change event
+ * @param template - The embedding template of the source collection
+ */
+const getChangeEventAction = (
+  detail: ChangeEventDetail,
+  template: EmbeddingTemplate,
+): ChangeEventAction => {
+  const { operationType, fullDocument, updateDescription } = detail;
+  const isSourceField = (path: string) =>
+    isEmbeddingSourceField(path, template);
+
+  switch (operationType) {
+    case 'delete':
+      return { action: 'delete', reason: 'Document deleted' };
+    case 'insert':
+    case 'replace':
+    case 'update': {
+      if (operationType === 'update' && updateDescription) {
+        const { updatedFields = {}, removedFields = [] } = updateDescription;
+        if (
+          !Object.keys(updatedFields).some(isSourceField)
+          && !removedFields.some(isSourceField)
+        ) {
+          return { action: 'skip', reason: 'Source fields not changed' };
+        }
+      }
+      if (!fullDocument) {
+        return { action: 'skip', reason: 'Full document not available' };
+      }
+      if (!renderTemplate(fullDocument, template).trim()) {
+        return { action: 'unset', reason: 'Document has no text to embed' };
+      }
+
+      return { action: 'embed', reason: `Document ${operationType}` };
+    }
+    default:
+      return {
+        action: 'skip',
+        reason: `Unsupported operation type ${operationType}`,
+      };
+  }
+};
+
+/**
+ * Returns a filter that matches the document only if the fields used to create the embedding still have
+ * the values they had in the change event. This way a write based on a stale event doesn't match the document
+ * and becomes a no-op, instead of overwriting the embedding of a more recent edit.
+ *
+ * @param fullDocument - The full document from the change event
+ * @param template - The embedding template the text was composed with
+ */
+const getSourceCondition = (
+  fullDocument: ChangeEventDetail['fullDocument'],
+  template: EmbeddingTemplate,
+): Filter<Document> =>
+  Object.fromEntries(
+    getTemplateFields(template).map((field) => {
+      const value = getFieldByPath(fullDocument, field);
+
+      return [field, value === undefined ? { $exists: false } : value];
+    }),
+  );
+
+/**
+ * Returns whether the document already has an embedding for the version created by the same model
+ * from the same text with the same template, in which case there is no need to embed it nor to write it again.
+ * The embeddings created before the template was introduced have no template version, they were created from the default template
+ * whose text is the normalized plot, so they are up to date when the hashes match.
+ * In chunking mode, the passages must also have been created with the same chunking configuration.
+ *
+ * @param fullDocument - The full document from the change event
+ * @param version - The embedding version to check
+ * @param sourceHash - The hash of the normalized text to embed
+ * @param template - The embedding template the text was composed with
+ * @param chunking - The chunking configuration, `null` when the embedding isn't chunked
+ */
+const isEmbeddingUpToDate = (
+  fullDocument: ChangeEventDetail['fullDocument'],
+  version: EmbeddingVersion,
+  sourceHash: string,
+  template: EmbeddingTemplate,
+  chunking: ChunkingConfig | null,
+): boolean => {
+  const meta = getFieldByPath(fullDocument, `${version.path}_meta`) as
+    | {
+      model?: string;
+      dimensions?: number;
+      sourceHash?: string;
+      templateVersion?: string;
+      chunking?: string;
+    }
+    | undefined;
+  const provider = getEmbeddingProvider(version.embedding);
+
+  return getFieldByPath(fullDocument, version.path) !== undefined
+    && meta?.sourceHash === sourceHash
+    && meta.model === provider.modelId
+    && meta.dimensions === provider.dimensions
+    && (meta.templateVersion ?? EMBEDDING_DEFAULT_TEMPLATE.version)
+      === template.version
+    && (!chunking || meta.chunking === getChunkingSignature(chunking));
+};
 
 class LambdaFunction implements LambdaInterface {
   #processor = new BatchProcessor(EventType.SQS);
+  #idempotencyStore: IdempotencyStore;
 
   /**
-   * Updates the document with the new plot_embedding field in MongoDB Atlas
+   * @param idempotencyStore - The store used to detect duplicate events, i.e. an in-memory one in tests
+   */
+  public constructor(
+    idempotencyStore: IdempotencyStore = new MongoIdempotencyStore(),
+  ) {
+    this.#idempotencyStore = idempotencyStore;
+  }
+
+  /**
+   * Sets the embedding fields of the document in MongoDB Atlas, only the given fields are written
+   * so that the rest of the document is left untouched.
+   *
+   * The write is conditioned on the source fields still having the values the embedding was created from,
+   * returns `false` when the document was changed or deleted in the meantime and nothing was written.
    *
-   * @param id - The document id as it appears in MongoDB
-   * @param fullDocument - The full MongoDB document with the new plot_embedding field
+   * @param source - The source collection of the document
+   * @param id - The `_id` of the document with its BSON type
+   * @param fields - The embedding fields to set, keyed by their dot-separated path
+   * @param condition - The condition on the source fields, see `getSourceCondition`
    */
   @tracer.captureMethod({ subSegmentName: '### writeEmbedding' })
   async writeEmbedding(
-    id: string,
-    fullDocument: Record<string, unknown> & { plot: string },
-  ) {
-    const collection = await getMongoCollection();
-    const response = await collection.replaceOne(
+    source: SourceCollection,
+    id: unknown,
+    fields: Record<string, unknown>,
+    condition: Filter<Document>,
+  ): Promise<boolean> {
+    const collection = await getSourceCollection(source);
+    const response = await collection.updateOne(
+      // The `_id` can be of any BSON type, the driver types it as an `ObjectId` by default
+      { _id: id, ...condition } as Filter<Document>,
+      { $set: fields },
+    );
+
+    logger.debug('MongoDB response', { response });
+
+    return response.matchedCount === 1;
+  }
+
+  /**
+   * Removes the embeddings at the given paths, along with their metadata, from a document that has no text to embed anymore.
+   *
+   * The write is conditioned like `writeEmbedding`, returns `false` when nothing was written.
+   *
+   * @param source - The source collection of the document
+   * @param id - The `_id` of the document with its BSON type
+   * @param paths - The paths of the embeddings to remove
+   * @param condition - The condition on the source fields, see `getSourceCondition`
+   */
+  @tracer.captureMethod({ subSegmentName: '### removeEmbedding' })
+  async removeEmbedding(
+    source: SourceCollection,
+    id: unknown,
+    paths: string[],
+    condition: Filter<Document>,
+  ): Promise<boolean> {
+    const collection = await getSourceCollection(source);
+    const response = await collection.updateOne(
+      { _id: id, ...condition } as Filter<Document>,
       {
-        _id: new ObjectId(id),
+        $unset: Object.fromEntries(
+          paths.flatMap((path) => [[path, ''], [`${path}_meta`, '']]),
+        ),
       },
-      fullDocument,
     );
 
     logger.debug('MongoDB response', { response });
 
-    if (response.modifiedCount !== 1) {
-      throw new Error('Unable to update document');
-    }
+    return response.matchedCount === 1;
+  }
+
+  /**
+   * Splits the text into passages and embeds each of them for the given versions, identical passages
+   * across documents share the same embedding through the cache. The passages are embedded with bounded
+   * concurrency to stay within the Bedrock quotas.
+   *
+   * @param text - The text composed from the document
+   * @param versions - The embedding versions to create
+   * @param config - The chunking configuration
+   */
+  @tracer.captureMethod({
+    subSegmentName: '### embedPassages',
+    captureResponse: false,
+  })
+  async embedPassages(
+    text: string,
+    versions: EmbeddingVersion[],
+    config: ChunkingConfig,
+  ): Promise<{ text: string; fields: Record<string, unknown> }[]> {
+    const passages = splitIntoPassages(text, config);
+
+    return mapWithConcurrency(
+      passages,
+      CHUNK_EMBEDDING_CONCURRENCY,
+      async (passage) => {
+        const fields: Record<string, unknown> = {};
+        for (const { path, embedding: embeddingConfig } of versions) {
+          const provider = getEmbeddingProvider(embeddingConfig);
+          const { embedding } = await getOrCreateEmbedding(
+            passage,
+            'search_document',
+            provider,
+          );
+          fields[path] = embedding;
+          fields[`${path}_meta`] = {
+            model: provider.modelId,
+            dimensions: provider.dimensions,
+            createdAt: new Date(),
+          };
+        }
+
+        return { text: passage, fields };
+      },
+    );
+  }
+
+  /**
+   * Cleans up the data related to a deleted document. The embeddings are stored in the document itself
+   * so they are already gone, but its passages are stored in the chunks collection and must be removed.
+   *
+   * @param source - The source collection of the document
+   * @param id - The `_id` of the document with its BSON type
+   */
+  @tracer.captureMethod({ subSegmentName: '### cleanupDeletedDocument' })
+  async cleanupDeletedDocument(source: SourceCollection, id: unknown) {
+    const deleted = await deleteChunks(source, id);
+    logger.info('Document deleted, passages removed', { deleted });
   }
 
   /**
-   * Receives a SQS record containing a MongoDB event, extracts the plot field and creates an embedding
-   * using the Bedrock Runtime API. The embedding is then written back to MongoDB Atlas in the same document
-   * as the `plot_embedding` field.
+   * Receives a SQS record containing a MongoDB event and handles it based on its operation type, in the pipeline
+   * of the source collection of its namespace. Events without a namespace belong to the default source,
+   * and events of a collection that is not a source are skipped.
+   * When a field of the embedding template is new or changed, composes the text of the document with the template
+   * and creates an embedding for each live embedding version. The embeddings
+   * are then written back to MongoDB Atlas in the same document in the field of each version (i.e. `plot_embedding`),
+   * along with the model, dimension and template version that produced them in the `<field>_meta` field.
+   * The embedding fields of the source (i.e. `title_embedding`) are handled the same way with their own template,
+   * for each live version.
+   * In chunking mode, the text is also split into passages that are embedded and stored in the chunks collection.
+   * Duplicate events are detected with the idempotency store and acknowledged without creating the embeddings again,
+   * and versions whose embedding was already created from the same text are not written again.
    *
    * @param record - The SQS record that contains the MongoDB event
    * @param lambdaContext - The Lambda context, used to check if the time is about to expire
@@ -60,6 +422,8 @@ class LambdaFunction implements LambdaInterface {
     subsegment?.addAnnotation('messageId', record.messageId);
     logger.appendKeys({ messageId: record.messageId });
 
+    let jobId: string | undefined;
+    let idempotencyKey: string | undefined;
     try {
       // Check if the time is about to expire, if so, throw an error to skip this record (and the rest of the batch - the record will be retried)
       if (lambdaContext.getRemainingTimeInMillis() < 1000) {
@@ -67,49 +431,283 @@ class LambdaFunction implements LambdaInterface {
         throw new Error('Time is about to expire, stopping processing');
       }
 
-      // Parse the SQS record body and extract EventBridge payload
+      // Parse the SQS record body and extract EventBridge payload, as Extended JSON so that the `_id`
+      // and the fields of the document keep their BSON type
       const { body } = record;
-      let payload: EventBridgeEvent<
-        'MongoDB Database Trigger for sample_mflix.movies',
-        {
-          operationType: string;
-          fullDocument: Record<string, unknown> & { plot: string };
-          documentKey: { _id: string };
-        }
-      >;
+      let payload: EventBridgeEvent<string, ChangeEventDetail>;
       try {
-        payload = JSON.parse(body);
+        payload = BSON.EJSON.parse(body) as EventBridgeEvent<
+          string,
+          ChangeEventDetail
+        >;
       } catch (error) {
         throw new Error('Unable to parse SQS record', { cause: error });
       }
 
-      // Extract the document id and the full document excluding the _id field
+      // Extract the document id, its namespace and the versions to update
       const {
         documentKey: { _id: id },
-        fullDocument: { _id, ...document },
+        ns,
+        versions,
       } = payload.detail;
+      jobId = payload.detail.jobId;
       // Add the document id as annotation and to the logger for correlation
-      subsegment?.addAnnotation('documentId', id);
-      logger.appendKeys({ documentId: id });
+      const documentId = formatDocumentId(id);
+      subsegment?.addAnnotation('documentId', documentId);
+      logger.appendKeys({ documentId });
+
+      // Route the event to the pipeline of its source collection
+      const source = ns ? getSourceByNamespace(ns) : getDefaultSource();
+      if (!source) {
+        logger.info('Collection is not a source collection, skipping', { ns });
+
+        return;
+      }
+      subsegment?.addAnnotation('collection', source.name);
 
-      // Create the embedding using the plot field from the document by calling the Bedrock Runtime API
+      // Decide what to do based on the operation type, for the embedding of the source and for each of its embedding fields
+      // since a change may only touch the template of some of them. Unsupported events are acknowledged rather than retried
+      const { action, reason } = getChangeEventAction(
+        payload.detail,
+        source.template,
+      );
+      const fieldActions = source.fields.map((field) => ({
+        field,
+        ...getChangeEventAction(payload.detail, field.template),
+      }));
+      subsegment?.addAnnotation('action', action);
+      logger.info('Processing change event', {
+        operationType: payload.detail.operationType,
+        action,
+        reason,
+        ...(fieldActions.length > 0 && {
+          fields: Object.fromEntries(
+            fieldActions.map(({ field, action }) => [field.name, action]),
+          ),
+        }),
+      });
+      if (action === 'delete') {
+        await this.cleanupDeletedDocument(source, id);
+
+        return;
+      }
+
+      // The live versions are the active one and the one being backfilled, if any,
+      // the backfill only requests the versions it's backfilling. The embedding fields follow the same versions
+      const state = await getEmbeddingState(source);
+      const liveVersions = getLiveEmbeddingVersions(state).filter(
+        ({ version }) => !versions || versions.includes(version),
+      );
+      const targets: EmbeddingTarget[] = [
+        {
+          name: EMBEDDING_DEFAULT_FIELD_NAME,
+          template: source.template,
+          action,
+          versions: liveVersions,
+          chunking: getChunkingConfig(),
+        },
+        ...fieldActions.map(({ field, action }) => ({
+          name: field.name,
+          template: field.template,
+          action,
+          versions: liveVersions.map((version) =>
+            getEmbeddingFieldVersion(source, field, version)
+          ),
+          chunking: null,
+        })),
+      ].filter(({ action, versions }) =>
+        action !== 'skip' && versions.length > 0
+      );
+      if (targets.length === 0) {
+        logger.info('No live embedding version to update', { versions });
+
+        return;
+      }
+
+      // Writes are conditioned on the fields of the template of each target, when an unset or a write loses the race
+      // against a more recent edit (or an out-of-order delivery) it's logged and skipped, the newer event wins
+      const { fullDocument } = payload.detail;
+      const getCondition = (template: EmbeddingTemplate) =>
+        fullDocument ? getSourceCondition(fullDocument, template) : {};
+      await Promise.all(
+        targets
+          .filter(({ action }) => action === 'unset')
+          .map(async ({ name, template, versions, chunking }) => {
+            const removed = await this.removeEmbedding(
+              source,
+              id,
+              versions.map(({ path }) => path),
+              getCondition(template),
+            );
+            if (!removed) {
+              subsegment?.addAnnotation('stale', true);
+              logger.info('Document changed since the event, skipping unset', {
+                field: name,
+              });
+            } else if (chunking) {
+              await deleteChunks(source, id);
+            }
+          }),
+      );
+      const embedTargets = targets.filter(({ action }) => action === 'embed');
+      if (embedTargets.length === 0) return;
+
+      // Versions whose embedding was already created by the same model from the same text are left untouched,
+      // i.e. when the document was replaced without changing the fields of the template
+      const pendingTargets = embedTargets
+        .map((target) => {
+          const text = renderTemplate(fullDocument, target.template);
+          const sourceHash = getTextHash(text);
+
+          return {
+            ...target,
+            text,
+            sourceHash,
+            versions: target.versions.filter(
+              (version) =>
+                !isEmbeddingUpToDate(
+                  fullDocument,
+                  version,
+                  sourceHash,
+                  target.template,
+                  target.chunking,
+                ),
+            ),
+          };
+        })
+        .filter(({ versions }) => versions.length > 0);
+      if (pendingTargets.length === 0) {
+        subsegment?.addAnnotation('upToDate', true);
+        logger.info('Embeddings are up to date, skipping write');
+        jobId && (await incrementBackfillJobCounter(jobId, 'embedded'));
+
+        return;
+      }
+
+      // Duplicates (SQS redeliveries, events re-sent by the trigger) are short-circuited before calling Bedrock,
+      // the key is released if processing fails. The key is the identity of the event rather than the text so that
+      // reverting a document to a previous text within the hour is embedded again.
+      // The documents of different source collections may share the same id, so the key is scoped to the source
+      const key = getIdempotencyKey(
+        `${source.name}/${documentId}`,
+        getChangeEventId(payload),
+        pendingTargets.flatMap(({ name, versions }) =>
+          versions.map(({ version }) =>
+            name === EMBEDDING_DEFAULT_FIELD_NAME
+              ? version
+              : `${name}/${version}`
+          )
+        ),
+      );
+      const outcome = await this.#idempotencyStore.claim(key);
+      subsegment?.addAnnotation('idempotency', outcome);
+      logger.info('Idempotency check', { idempotencyKey: key, outcome });
+      if (outcome === 'completed') return;
+      if (outcome === 'in_progress') {
+        throw new Error('The same event is already being processed');
+      }
+      idempotencyKey = key;
+
+      // Create the embeddings using the text composed from the document for each version, identical texts across
+      // documents share the same embedding through the cache. The text is truncated to the input limit of each model.
+      // Each embedding is stored along with the model, dimension and template version that produced it,
+      // and the hash of the normalized text it was created from
+      const writes: {
+        template: EmbeddingTemplate;
+        fields: Record<string, unknown>;
+      }[] = [];
+      let passages:
+        | { text: string; fields: Record<string, unknown> }[]
+        | undefined;
+      let cacheHits = 0;
       try {
-        document['plot_embedding'] = await getEmbedding(document.plot);
+        for (const target of pendingTargets) {
+          const { text, sourceHash, template, chunking } = target;
+          const fields: Record<string, unknown> = {};
+          for (const { path, embedding: config } of target.versions) {
+            const provider = getEmbeddingProvider(config);
+            const { embedding, cached } = await getOrCreateEmbedding(
+              text,
+              'search_document',
+              provider,
+            );
+            cached && cacheHits++;
+            fields[path] = embedding;
+            fields[`${path}_meta`] = {
+              model: provider.modelId,
+              dimensions: provider.dimensions,
+              sourceHash,
+              templateVersion: template.version,
+              ...(chunking && { chunking: getChunkingSignature(chunking) }),
+              createdAt: new Date(),
+            };
+          }
+          if (chunking) {
+            passages = await this.embedPassages(
+              text,
+              target.versions,
+              chunking,
+            );
+          }
+          writes.push({ template, fields });
+        }
       } catch (error) {
         throw new Error('Unble to create embedding', { cause: error });
       }
+      subsegment?.addAnnotation('cacheHits', cacheHits);
+      logger.info('Embeddings created', {
+        versions: pendingTargets.reduce(
+          (count, { versions }) => count + versions.length,
+          0,
+        ),
+        fields: pendingTargets.map(({ name }) => name),
+        cacheHits,
+        passages: passages?.length ?? 0,
+      });
 
-      // Write the embedding back to MongoDB Atlas
+      // Write the passages first, then the embeddings back to MongoDB Atlas, so that the document is only
+      // marked up to date once its passages are stored and a failed write of the passages is retried
+      let written: boolean[];
       try {
-        await this.writeEmbedding(id, document);
+        if (passages) await writeChunks(source, id, passages);
+        written = await Promise.all(
+          writes.map(({ template, fields }) =>
+            this.writeEmbedding(source, id, fields, getCondition(template))
+          ),
+        );
       } catch (error) {
         throw new Error('Unable to write embedding', { cause: error });
       }
+      // A write that didn't apply isn't recorded as done, the key is released instead
+      if (written.includes(false)) {
+        subsegment?.addAnnotation('stale', true);
+        logger.info(
+          'Document changed or deleted since the event, skipping write',
+        );
+        await this.#idempotencyStore.release(idempotencyKey);
+        jobId && (await incrementBackfillJobCounter(jobId, 'skipped'));
+      } else {
+        await this.#idempotencyStore.complete(idempotencyKey);
+        // Update the counters of the backfill job that enqueued the event, if any
+        jobId && (await incrementBackfillJobCounter(jobId, 'embedded'));
+      }
     } catch (error) {
       if (error instanceof Error) {
         subsegment?.addError(error);
         logger.error(error.message, error);
       }
+      if (idempotencyKey) {
+        await this.#idempotencyStore.release(idempotencyKey).catch((err) =>
+          logger.error('Unable to release idempotency key', err)
+        );
+      }
+      // Count the event as failed only on its last attempt, before it's moved to the DLQ
+      const receiveCount = parseInt(record.attributes.ApproximateReceiveCount);
+      if (jobId && receiveCount >= EVENT_QUEUE_MAX_RECEIVE_COUNT) {
+        await incrementBackfillJobCounter(jobId, 'failed').catch((err) =>
+          logger.error('Unable to update backfill job', err)
+        );
+      }
       throw error;
     } finally {
       subsegment?.close();
@@ -120,8 +718,7 @@ class LambdaFunction implements LambdaInterface {
   /**
    * Processes the SQS messages in batches using Powertools for AWS Lambda (TypeScript) Batch Processing utility.
    * Each SQS message contains a MongoDB event, the event is then processed by the `recordHandler` method.
-   * The method parses the MongoDB document, extracts the plot field and creates an embedding using the Bedrock Runtime API.
-   * The embedding is then written back to MongoDB Atlas in the same document as the `plot_embedding` field.
+   * Depending on the operation type, the method creates the embeddings of the document, removes them, or skips the event.
    *
    * @param event - The SQS event containing the MongoDB events coming from the MongoDB Trigger via EventBridge
    * @param context - The Lambda context
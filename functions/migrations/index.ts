@@ -0,0 +1,170 @@
+import type { LambdaInterface } from '@aws-lambda-powertools/commons';
+import type { APIGatewayEvent, Context } from 'aws-lambda';
+import { flushQueryEmbeddingCache } from '../commons/cache';
+import { logger, tracer } from '../commons/powertools';
+import {
+  getSource,
+  getSources,
+  type SourceCollection,
+} from '../commons/sources';
+import {
+  cleanupEmbeddingVersion,
+  EmbeddingStateConflictError,
+  getEmbeddingCoverage,
+  getEmbeddingState,
+  startEmbeddingMigration,
+  switchEmbeddingVersion,
+} from '../commons/versions';
+
+class LambdaFunction implements LambdaInterface {
+  /**
+   * Returns the embedding state of the source along with the coverage of the active version and of the version
+   * being backfilled, if any, as well as whether the target version is ready to become active.
+   *
+   * @param source - The source collection
+   */
+  @tracer.captureMethod({ subSegmentName: '### getStatus' })
+  async getStatus(source: SourceCollection) {
+    const state = await getEmbeddingState(source, { refresh: true });
+    const [active, target] = await Promise.all([
+      getEmbeddingCoverage(source, state.active),
+      state.target && getEmbeddingCoverage(source, state.target),
+    ]);
+
+    return {
+      active: { ...state.active, ...active },
+      target: state.target && target && {
+        ...state.target,
+        ...target,
+        readyToSwitch: target.coverage >= state.target.coverageThreshold,
+      },
+      previous: state.previous,
+    };
+  }
+
+  /**
+   * Makes the version being backfilled the active one if its coverage has reached the threshold.
+   * The field of the previously active version is kept, see `cleanupEmbeddingVersion` to remove it.
+   *
+   * @param source - The source collection
+   */
+  @tracer.captureMethod({ subSegmentName: '### switchVersion' })
+  async switchVersion(source: SourceCollection) {
+    const { target } = await this.getStatus(source);
+    if (!target) {
+      return { statusCode: 409, message: 'No migration in progress' };
+    }
+    if (!target.readyToSwitch) {
+      return {
+        statusCode: 409,
+        message:
+          `Coverage of version ${target.version} is ${target.coverage}, below the threshold of ${target.coverageThreshold}`,
+      };
+    }
+
+    const state = await switchEmbeddingVersion(source, target.version);
+
+    return { statusCode: 200, active: state.active, previous: state.previous };
+  }
+
+  /**
+   * Receives a request from API Gateway and manages the migration of the embeddings to a new version,
+   * as well as the query embedding cache:
+   * - `GET /migrations` returns the state and coverage of the embedding versions
+   * - `POST /migrations` starts backfilling the version configured in the stack
+   * - `POST /migrations/switch` makes the backfilled version active once its coverage reaches the threshold
+   * - `POST /migrations/cleanup` removes the field of the previous version, once the containers no longer use it
+   * The migration routes apply to the source collection set in the `collection` query string parameter, the default one if unset.
+   * - `DELETE /cache/query-embeddings` flushes the query embedding cache, i.e. after changing the model,
+   *   pass the `model` query string parameter to only remove the embeddings of that model
+   *
+   * @param event - The API Gateway request event
+   * @param _context - The Lambda context (unused)
+   */
+  @logger.injectLambdaContext({ logEvent: true })
+  @tracer.captureLambdaHandler()
+  async handler(
+    event: APIGatewayEvent,
+    _context: Context,
+  ): Promise<{ statusCode: number; body: string }> {
+    const { httpMethod, resource, body, queryStringParameters } = event;
+
+    try {
+      const source = getSource(queryStringParameters?.collection);
+      if (!source) {
+        return {
+          statusCode: 400,
+          body: JSON.stringify({
+            message: `collection must be among ${
+              getSources().map(({ name }) => name).join(', ')
+            }`,
+          }),
+        };
+      }
+      if (httpMethod === 'GET' && resource === '/migrations') {
+        return {
+          statusCode: 200,
+          body: JSON.stringify(await this.getStatus(source)),
+        };
+      }
+      if (httpMethod === 'POST' && resource === '/migrations') {
+        const state = await startEmbeddingMigration(source);
+
+        return { statusCode: 200, body: JSON.stringify(state) };
+      }
+      if (httpMethod === 'POST' && resource === '/migrations/switch') {
+        // The previous version may still be used by warm containers right after the switch
+        if (JSON.parse(body || '{}').cleanup) {
+          return {
+            statusCode: 400,
+            body: JSON.stringify({
+              message:
+                'cleanup is a separate request, use POST /migrations/cleanup once the switch has propagated',
+            }),
+          };
+        }
+        const { statusCode, ...result } = await this.switchVersion(source);
+
+        return { statusCode, body: JSON.stringify(result) };
+      }
+      if (httpMethod === 'POST' && resource === '/migrations/cleanup') {
+        const result = await cleanupEmbeddingVersion(source);
+
+        return { statusCode: 200, body: JSON.stringify(result) };
+      }
+      if (httpMethod === 'DELETE' && resource === '/cache/query-embeddings') {
+        const deletedCount = await flushQueryEmbeddingCache(
+          event.queryStringParameters?.model,
+        );
+
+        return { statusCode: 200, body: JSON.stringify({ deletedCount }) };
+      }
+
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ message: 'Not found' }),
+      };
+    } catch (error) {
+      if (error instanceof EmbeddingStateConflictError) {
+        logger.warn('Embedding state conflict', { message: error.message });
+
+        return {
+          statusCode: 409,
+          body: JSON.stringify({ message: error.message }),
+        };
+      }
+      logger.error('Unable to manage embedding migration', error as Error);
+
+      return {
+        statusCode: 500,
+        body: JSON.stringify({
+          message:
+            'An error occurred while managing the embedding migration, please try again later.',
+        }),
+      };
+    }
+  }
+}
+
+const lambda = new LambdaFunction();
+export const handler = lambda.handler.bind(lambda);
@@ -1,52 +1,1003 @@
 import type { LambdaInterface } from '@aws-lambda-powertools/commons';
 import type { APIGatewayEvent, Context } from 'aws-lambda';
-import { MONGODB_SEARCH_INDEX_NAME } from '../commons/constants';
-import { getEmbedding, getMongoCollection } from '../commons/helpers';
+import { BSON, type Document, type Filter, type WithId } from 'mongodb';
+import { getCachedQueryEmbedding, getQueryEmbedding } from '../commons/cache';
+import { getChunkingConfig } from '../commons/chunks';
+import {
+  EMBEDDING_DEFAULT_FIELD_NAME,
+  EXPANSION_DEFAULT_VARIANTS,
+  EXPANSION_RANK_WINDOW_FACTOR,
+  HYBRID_SEARCH_RANK_WINDOW_FACTOR,
+  MMR_CANDIDATES_FACTOR,
+  MMR_DEFAULT_LAMBDA,
+  MULTI_FIELD_SEARCH_CANDIDATES_FACTOR,
+  PASSAGE_SEARCH_CANDIDATES_FACTOR,
+  RERANK_CANDIDATES_FACTOR,
+  SEARCH_BATCH_EMBEDDING_CONCURRENCY,
+  SEARCH_BATCH_MAX_QUERIES,
+  VECTOR_SEARCH_DEFAULT_LIMIT,
+  VECTOR_SEARCH_DEFAULT_NUM_CANDIDATES,
+  VECTOR_SEARCH_MAX_NUM_CANDIDATES,
+} from '../commons/constants';
+import {
+  decodeCursor,
+  encodeCursor,
+  type SearchCursor,
+} from '../commons/cursor';
+import {
+  type EmbeddedResult,
+  maximalMarginalRelevance,
+} from '../commons/diversity';
+import { getEmbedding, getEmbeddingProvider } from '../commons/embeddings';
+import {
+  expandQuery,
+  type ExpansionStrategy,
+  type QueryExpansion,
+} from '../commons/expansion';
+import {
+  buildFacetStage,
+  FACET_NAMES,
+  type FacetName,
+  type Facets,
+  parseFacets,
+} from '../commons/facets';
+import {
+  buildVectorSearchFilter,
+  type SearchFilters,
+} from '../commons/filters';
+import { reciprocalRankFusion, weightedScoreFusion } from '../commons/fusion';
+import {
+  getFieldByPath,
+  getMongoCollection,
+  mapWithConcurrency,
+  parseDocumentId,
+} from '../commons/helpers';
 import { logger, tracer } from '../commons/powertools';
+import { getReranker } from '../commons/rerank';
+import { buildVectorSearchStage, vectorSearch } from '../commons/search';
+import {
+  getSource,
+  getSourceCollection,
+  getSourceProjection,
+  getSources,
+  type SourceCollection,
+} from '../commons/sources';
+import {
+  type QueryInterpretation,
+  understandQuery,
+} from '../commons/understanding';
+import {
+  type EmbeddingVersion,
+  getEmbeddingFieldVersion,
+  getEmbeddingState,
+} from '../commons/versions';
+
+type SearchMode = 'vector' | 'text' | 'hybrid';
+
+/**
+ * Shape of the `/search` response: the legacy `array` of results, or the `envelope` with the results, the facets and the metadata.
+ */
+type ResponseFormat = 'array' | 'envelope';
+
+/**
+ * How the scores of the passages of a movie are combined into its score: the score of its best passage (`max`),
+ * or the sum of the scores of its matching passages (`sum`) which favors movies that match in many places.
+ */
+type PassageScoring = 'max' | 'sum';
+
+/**
+ * A query of `POST /search/batch`, searched in `vector` mode.
+ */
+type BatchQuery = {
+  query: string;
+  limit?: number;
+  numCandidates?: number;
+  filters?: SearchFilters;
+};
+
+/**
+ * Outcome of a query of `POST /search/batch`, along with the status code it would get from `POST /search`.
+ */
+type BatchResult = {
+  query: string;
+  statusCode: number;
+  results?: WithId<Document>[];
+  message?: string;
+};
+
+/**
+ * Returns the reason why a query of a batch is invalid, or `undefined` when it's valid.
+ *
+ * @param entry - The query of the batch
+ */
+const getBatchQueryError = (entry: BatchQuery): string | undefined => {
+  const {
+    query,
+    limit = VECTOR_SEARCH_DEFAULT_LIMIT,
+    numCandidates = Math.max(VECTOR_SEARCH_DEFAULT_NUM_CANDIDATES, limit),
+  } = entry ?? {};
+  if (typeof query !== 'string' || query.trim().length === 0) {
+    return 'query must be a non-empty string';
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > 50) {
+    return 'limit must be an integer between 1 and 50';
+  }
+  if (
+    !Number.isInteger(numCandidates) || numCandidates < limit
+    || numCandidates > VECTOR_SEARCH_MAX_NUM_CANDIDATES
+  ) {
+    return `numCandidates must be an integer greater than or equal to limit and at most ${VECTOR_SEARCH_MAX_NUM_CANDIDATES}`;
+  }
+
+  return undefined;
+};
+
+/**
+ * Builds the stages that return the `limit` best matches of a full-text query on the text fields of the source,
+ * i.e. the `title`, `cast` and `plot` fields of the movies. Matches on the boosted fields (i.e. the title and the cast)
+ * rank first so that exact title or actor-name queries return the expected movie.
+ *
+ * @param source - The source collection
+ * @param query - The text query
+ * @param options - The number of results to return and the pre-filters to apply
+ */
+const buildTextSearchStages = (
+  source: SourceCollection,
+  query: string,
+  options: { limit: number; filters?: SearchFilters },
+): Document[] => {
+  const { limit, filters } = options;
+  const filter = buildVectorSearchFilter(filters);
+
+  return [
+    {
+      $search: {
+        index: source.textIndex,
+        compound: {
+          should: source.textFields.map(({ path, boost }) => ({
+            text: {
+              query,
+              path,
+              ...(boost && { score: { boost: { value: boost } } }),
+            },
+          })),
+          minimumShouldMatch: 1,
+        },
+      },
+    },
+    ...(filter ? [{ $match: filter }] : []),
+    { $limit: limit },
+  ];
+};
+
+/**
+ * Returns the version of the embedding field with the given name: the version itself for the embedding of the source (`default`),
+ * or the version of one of its embedding fields, which are created with the same model.
+ *
+ * @param source - The source collection
+ * @param version - The active embedding version
+ * @param name - The name of the embedding field
+ */
+const getNamedFieldVersion = (
+  source: SourceCollection,
+  version: EmbeddingVersion,
+  name: string,
+): EmbeddingVersion => {
+  const field = source.fields.find((field) => field.name === name);
+
+  return field ? getEmbeddingFieldVersion(source, field, version) : version;
+};
+
+/**
+ * Returns the reason why the weights of the embedding fields of a multi-field search are invalid, or `undefined` when they're valid.
+ *
+ * @param source - The source collection
+ * @param fields - The weight of each embedding field, keyed by name
+ */
+const getFieldWeightsError = (
+  source: SourceCollection,
+  fields: Record<string, number>,
+): string | undefined => {
+  const names = [
+    EMBEDDING_DEFAULT_FIELD_NAME,
+    ...source.fields.map(({ name }) => name),
+  ];
+  const entries = typeof fields === 'object' && !Array.isArray(fields)
+    ? Object.entries(fields)
+    : [];
+  if (
+    entries.length === 0
+    || entries.some(([name, weight]) =>
+      !names.includes(name) || typeof weight !== 'number' || !(weight >= 0)
+    )
+    || !entries.some(([, weight]) => weight > 0)
+  ) {
+    return `fields must map embedding fields among ${
+      names.join(', ')
+    } to non-negative weights, at least one of them positive`;
+  }
+
+  return undefined;
+};
+
+/**
+ * Returns the response to a request for a collection that is not a source collection.
+ */
+const unknownSourceResponse = () => ({
+  statusCode: 400,
+  body: JSON.stringify({
+    message: `collection must be among ${
+      getSources().map(({ name }) => name).join(', ')
+    }`,
+  }),
+});
+
+/**
+ * Parses the query string of the `GET /movies/{id}/similar` route, which accepts the same `limit`,
+ * `numCandidates` and `filters` (as URL-encoded JSON) as the body of `POST /search`.
+ * Returns why the parameters are invalid, if they are, since API Gateway can't validate their values.
+ *
+ * @param parameters - The query string parameters of the request
+ */
+const parseSimilarParameters = (
+  parameters: Record<string, string | undefined> | null,
+):
+  | { limit: number; numCandidates: number; filters?: SearchFilters }
+  | { error: string } =>
+{
+  const limit = parameters?.limit
+    ? Number(parameters.limit)
+    : VECTOR_SEARCH_DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > 50) {
+    return { error: 'limit must be an integer between 1 and 50' };
+  }
+  const numCandidates = parameters?.numCandidates
+    ? Number(parameters.numCandidates)
+    : Math.max(VECTOR_SEARCH_DEFAULT_NUM_CANDIDATES, limit);
+  if (
+    !Number.isInteger(numCandidates) || numCandidates < limit
+    || numCandidates > 10000
+  ) {
+    return {
+      error:
+        'numCandidates must be an integer greater than or equal to limit and at most 10000',
+    };
+  }
+  let filters: SearchFilters | undefined;
+  try {
+    filters = parameters?.filters ? JSON.parse(parameters.filters) : undefined;
+  } catch {
+    return { error: 'filters must be a JSON object' };
+  }
+
+  return { limit, numCandidates, filters };
+};
 
 class LambdaFunction implements LambdaInterface {
   /**
-   * Searches the MongoDB Atlas Vector Search index for the nearest neighbors of the embedding.
+   * Searches the MongoDB Atlas Vector Search index of the given embedding version of the source for the nearest neighbors of the embedding.
    *
    * @param embedding - The embedding to use for the vector search
+   * @param options - The source collection and its embedding version to search, the number of results to return, the number of candidates to consider and the pre-filters to apply
    */
   @tracer.captureMethod({
     subSegmentName: '### knnSearch',
     captureResponse: false,
   })
-  async knnSearch(embedding: number[]) {
-    const collection = await getMongoCollection();
+  async knnSearch(
+    embedding: number[],
+    options: {
+      source: SourceCollection;
+      version: EmbeddingVersion;
+      limit: number;
+      numCandidates: number;
+      filters?: SearchFilters;
+      includeEmbedding?: boolean;
+    },
+  ) {
+    return vectorSearch(embedding, options);
+  }
+
+  /**
+   * Over-fetches candidates from the vector search along with their embeddings, then selects the results
+   * using Maximal Marginal Relevance so that near-identical movies don't crowd the results.
+   * The embeddings are only used to compare the candidates and are removed from the results.
+   *
+   * @param embedding - The embedding of the query
+   * @param options - The search options and the trade-off between relevance (`1`) and diversity (`0`)
+   */
+  @tracer.captureMethod({
+    subSegmentName: '### diverseSearch',
+    captureResponse: false,
+  })
+  async diverseSearch(
+    embedding: number[],
+    options: {
+      source: SourceCollection;
+      version: EmbeddingVersion;
+      limit: number;
+      numCandidates: number;
+      filters?: SearchFilters;
+      lambda: number;
+    },
+  ) {
+    const { source, version, limit, numCandidates, filters, lambda } = options;
+    const candidates = await this.knnSearch(embedding, {
+      source,
+      version,
+      limit: Math.min(numCandidates, limit * MMR_CANDIDATES_FACTOR),
+      numCandidates,
+      filters,
+      includeEmbedding: true,
+    });
+
+    return maximalMarginalRelevance(
+      embedding,
+      candidates as EmbeddedResult[],
+      { limit, lambda },
+    ).map(({ embedding: _embedding, ...result }) => result);
+  }
+
+  /**
+   * Searches the MongoDB Atlas Search index of the source using a full-text query on its text fields,
+   * i.e. the `title`, `cast` and `plot` fields of the movies.
+   *
+   * @param source - The source collection
+   * @param query - The text query
+   * @param options - The number of results to return and the pre-filters to apply
+   */
+  @tracer.captureMethod({
+    subSegmentName: '### textSearch',
+    captureResponse: false,
+  })
+  async textSearch(
+    source: SourceCollection,
+    query: string,
+    options: { limit: number; filters?: SearchFilters },
+  ) {
+    const collection = await getSourceCollection(source);
     const results = await collection
-      .aggregate([
+      .aggregate<WithId<Document>>([
+        ...buildTextSearchStages(source, query, options),
         {
-          $search: {
-            index: MONGODB_SEARCH_INDEX_NAME,
-            knnBeta: {
-              vector: embedding,
-              path: 'plot_embedding',
-              k: 3,
+          $project: {
+            ...getSourceProjection(source),
+            score: { $meta: 'searchScore' },
+          },
+        },
+      ])
+      .toArray();
+
+    logger.info('Text results found', { lenght: results.length });
+
+    return results;
+  }
+
+  /**
+   * Searches many queries in `vector` mode. The queries are embedded with bounded concurrency to stay within
+   * the Bedrock quotas, then their vector searches run in parallel on the shared MongoDB connection.
+   * A query that fails only fails its own entry, the entries are in the same order as the queries.
+   *
+   * @param source - The source collection to search
+   * @param queries - The queries to search, each with its own limit, number of candidates and pre-filters
+   */
+  @tracer.captureMethod({
+    subSegmentName: '### batchSearch',
+    captureResponse: false,
+  })
+  async batchSearch(
+    source: SourceCollection,
+    queries: BatchQuery[],
+  ): Promise<{ statusCode: number; body: string }> {
+    const errors = queries.map(getBatchQueryError);
+    const { active: version } = await getEmbeddingState(source);
+    const provider = getEmbeddingProvider(version.embedding);
+
+    const embeddings = await mapWithConcurrency(
+      queries,
+      SEARCH_BATCH_EMBEDDING_CONCURRENCY,
+      async ({ query }, index) => {
+        if (errors[index]) return;
+        try {
+          return (await getQueryEmbedding(query, provider)).embedding;
+        } catch (error) {
+          logger.error('Unable to get embedding', { index, error });
+
+          return;
+        }
+      },
+    );
+
+    const results = await Promise.all(
+      queries.map(async (entry, index): Promise<BatchResult> => {
+        const {
+          query,
+          limit = VECTOR_SEARCH_DEFAULT_LIMIT,
+          numCandidates = Math.max(VECTOR_SEARCH_DEFAULT_NUM_CANDIDATES, limit),
+          filters,
+        } = entry;
+        const error = errors[index];
+        if (error) return { query, statusCode: 400, message: error };
+        const embedding = embeddings[index];
+        try {
+          if (!embedding) throw new Error('Unable to get embedding');
+
+          return {
+            query,
+            statusCode: 200,
+            results: await this.knnSearch(embedding, {
+              source,
+              version,
+              limit,
+              numCandidates,
+              filters,
+            }),
+          };
+        } catch (error) {
+          logger.error('Unable to search query of the batch', {
+            index,
+            error,
+          });
+
+          return {
+            query,
+            statusCode: 500,
+            message:
+              'An error occurred while searching the movies, please try again later.',
+          };
+        }
+      }),
+    );
+    const failed = results.filter(({ statusCode }) => statusCode !== 200)
+      .length;
+    logger.info('Batch searched', { count: results.length, failed });
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        results,
+        meta: { count: results.length, failed, collection: source.name },
+      }),
+    };
+  }
+
+  /**
+   * Returns the page of vector search results that follows the given result. The results are sorted by score,
+   * then by `_id` so that the order is stable across pages, and the results of the previous pages are skipped
+   * using the score and the `_id` of their last result (keyset pagination) so that no result is returned twice.
+   * Since a vector search can't start after a given result, it retrieves the previous pages again, up to `numCandidates`.
+   *
+   * @param embedding - The embedding of the query
+   * @param options - The source collection and its embedding version to search, the number of results to return, the number of candidates to consider, the pre-filters to apply, the number of results of the previous pages and their last result
+   */
+  @tracer.captureMethod({
+    subSegmentName: '### pageSearch',
+    captureResponse: false,
+  })
+  async pageSearch(
+    embedding: number[],
+    options: {
+      source: SourceCollection;
+      version: EmbeddingVersion;
+      limit: number;
+      numCandidates: number;
+      filters?: SearchFilters;
+      offset: number;
+      after?: { score: number; id: unknown };
+    },
+  ) {
+    const { source, version, limit, numCandidates, filters, offset, after } =
+      options;
+
+    const collection = await getSourceCollection(source);
+    // One more result is retrieved to know whether there is a next page
+    const results = await collection
+      .aggregate<WithId<Document>>([
+        buildVectorSearchStage(embedding, {
+          version,
+          limit: Math.min(numCandidates, offset + limit + 1),
+          numCandidates,
+          filters,
+        }),
+        {
+          $project: {
+            ...getSourceProjection(source),
+            score: { $meta: 'vectorSearchScore' },
+          },
+        },
+        { $sort: { score: -1, _id: 1 } },
+        ...(after
+          ? [
+            {
+              $match: {
+                $or: [
+                  { score: { $lt: after.score } },
+                  { score: after.score, _id: { $gt: after.id } },
+                ],
+              },
             },
+          ]
+          : []),
+        { $limit: limit + 1 },
+      ])
+      .toArray();
+
+    logger.info('Page results found', { lenght: results.length, offset });
+
+    return {
+      results: results.slice(0, limit),
+      hasMore: results.length > limit,
+    };
+  }
+
+  /**
+   * Searches the passages of the chunks collection of the source for the nearest neighbors of the embedding, then groups them
+   * back to their movies. Each result contains the combined `score` of its passages, the text of its best matching
+   * passage as `snippet`, and the number of its matching `passages`.
+   * The passages don't carry the fields of the movies, so the filters are applied to the movies after the grouping
+   * and fewer than `limit` results may be returned when the filters are selective.
+   *
+   * @param embedding - The embedding of the query
+   * @param options - The source collection and its embedding version to search, the number of results to return, the number of candidates to consider, the filters to apply and how to combine the scores of the passages
+   */
+  @tracer.captureMethod({
+    subSegmentName: '### passageSearch',
+    captureResponse: false,
+  })
+  async passageSearch(
+    embedding: number[],
+    options: {
+      source: SourceCollection;
+      version: EmbeddingVersion;
+      limit: number;
+      numCandidates: number;
+      filters?: SearchFilters;
+      scoring: PassageScoring;
+    },
+  ) {
+    const { source, version, limit, numCandidates, filters, scoring } = options;
+    const filter = buildVectorSearchFilter(filters);
+
+    const collection = await getMongoCollection(
+      source.chunks,
+      source.database,
+    );
+    const results = await collection
+      .aggregate<WithId<Document>>([
+        // Retrieve more passages than results since a movie can match with several passages
+        buildVectorSearchStage(embedding, {
+          version,
+          limit: Math.min(
+            numCandidates,
+            limit * PASSAGE_SEARCH_CANDIDATES_FACTOR,
+          ),
+          numCandidates,
+        }),
+        {
+          $project: {
+            parentId: 1,
+            text: 1,
+            score: { $meta: 'vectorSearchScore' },
           },
         },
+        // The passages come sorted by score, so the first passage of each movie is its best matching one
+        {
+          $group: {
+            _id: '$parentId',
+            score: { [scoring === 'sum' ? '$sum' : '$max']: '$score' },
+            snippet: { $first: '$text' },
+            passages: { $sum: 1 },
+          },
+        },
+        {
+          $lookup: {
+            from: source.collection,
+            localField: '_id',
+            foreignField: '_id',
+            pipeline: [
+              ...(filter ? [{ $match: filter }] : []),
+              { $project: getSourceProjection(source) },
+            ],
+            as: 'document',
+          },
+        },
+        // Movies that were filtered out, or deleted since their passages were stored, have no match
+        { $unwind: '$document' },
+        { $sort: { score: -1, _id: 1 } },
+        { $limit: limit },
         {
           $project: {
-            title: 1,
-            plot: 1,
-            score: { $meta: 'searchScore' },
+            ...Object.fromEntries(
+              source.projection.map((path) => [path, `$document.${path}`]),
+            ),
+            score: 1,
+            snippet: 1,
+            passages: 1,
           },
         },
       ])
       .toArray();
 
-    logger.info('Results found', { lenght: results.length });
+    logger.info('Passage results found', { lenght: results.length, scoring });
 
     return results;
   }
 
+  /**
+   * Computes the requested facets over the candidates returned by the given stages.
+   *
+   * @param source - The source collection
+   * @param candidates - The stages that return the candidates, i.e. a `$vectorSearch` stage
+   * @param facets - The facets to compute
+   */
+  @tracer.captureMethod({
+    subSegmentName: '### facetSearch',
+    captureResponse: false,
+  })
+  async facetSearch(
+    source: SourceCollection,
+    candidates: Document[],
+    facets: FacetName[],
+  ) {
+    const collection = await getSourceCollection(source);
+    const [output] = await collection
+      .aggregate([...candidates, buildFacetStage(facets)])
+      .toArray();
+
+    return parseFacets(output ?? {});
+  }
+
+  /**
+   * Runs the vector and the full-text searches in parallel and merges the two lists
+   * using weighted Reciprocal Rank Fusion. Each result contains the fused score as well as
+   * its rank in the vector list and in the text list (`null` when absent from a list).
+   *
+   * @param query - The text query
+   * @param embedding - The embedding of the query
+   * @param options - The search options and the weight of each list in the fused score
+   */
+  @tracer.captureMethod({
+    subSegmentName: '### hybridSearch',
+    captureResponse: false,
+  })
+  async hybridSearch(
+    query: string,
+    embedding: number[],
+    options: {
+      source: SourceCollection;
+      version: EmbeddingVersion;
+      limit: number;
+      numCandidates: number;
+      filters?: SearchFilters;
+      weights: { vector: number; text: number };
+    },
+  ) {
+    const { source, version, limit, numCandidates, filters, weights } = options;
+    // Retrieve a wider window from each list so that the fusion has enough overlap
+    const window = Math.min(
+      numCandidates,
+      limit * HYBRID_SEARCH_RANK_WINDOW_FACTOR,
+    );
+
+    const [vectorResults, textResults] = await Promise.all([
+      this.knnSearch(embedding, {
+        source,
+        version,
+        limit: window,
+        numCandidates,
+        filters,
+      }),
+      this.textSearch(source, query, { limit: window, filters }),
+    ]);
+
+    return reciprocalRankFusion([
+      { name: 'vector', weight: weights.vector, results: vectorResults },
+      { name: 'text', weight: weights.text, results: textResults },
+    ])
+      .slice(0, limit)
+      .map(({ ranks, ...result }) => ({
+        ...result,
+        vectorRank: ranks.vector,
+        textRank: ranks.text,
+      }));
+  }
+
+  /**
+   * Searches the vector index of each embedding field with a positive weight in parallel with the embedding of the query,
+   * then merges the lists using weighted score fusion. Each result contains the fused score as well as the score
+   * of the result for each field (`null` when absent from its list) and its contribution to the fused score.
+   *
+   * @param embedding - The embedding of the query
+   * @param options - The search options and the weight of each embedding field, keyed by name
+   */
+  @tracer.captureMethod({
+    subSegmentName: '### multiFieldSearch',
+    captureResponse: false,
+  })
+  async multiFieldSearch(
+    embedding: number[],
+    options: {
+      source: SourceCollection;
+      version: EmbeddingVersion;
+      limit: number;
+      numCandidates: number;
+      filters?: SearchFilters;
+      weights: Record<string, number>;
+    },
+  ) {
+    const { source, version, limit, numCandidates, filters, weights } = options;
+    // Retrieve a wider window from each field so that the results found by several fields get their full score
+    const window = Math.min(
+      numCandidates,
+      limit * MULTI_FIELD_SEARCH_CANDIDATES_FACTOR,
+    );
+
+    const lists = await Promise.all(
+      Object.entries(weights)
+        .filter(([, weight]) => weight > 0)
+        .map(async ([name, weight]) => ({
+          name,
+          weight,
+          results: await this.knnSearch(embedding, {
+            source,
+            version: getNamedFieldVersion(source, version, name),
+            limit: window,
+            numCandidates,
+            filters,
+          }),
+        })),
+    );
+
+    return weightedScoreFusion(lists)
+      .slice(0, limit)
+      .map(({ contributions, ...result }) => ({
+        ...result,
+        fieldScores: contributions,
+      }));
+  }
+
+  /**
+   * Searches the vector index with the embedding of the query and with the embedding of each of its variants
+   * in parallel, then merges the lists using Reciprocal Rank Fusion. Each result contains the fused score as well as
+   * its rank in the list of each query, the original query first (`null` when absent from a list).
+   *
+   * @param embedding - The embedding of the query
+   * @param expansion - The variants of the query
+   * @param options - The source collection and its embedding version to search, the number of results to return, the number of candidates to consider and the pre-filters to apply
+   */
+  @tracer.captureMethod({
+    subSegmentName: '### expandedSearch',
+    captureResponse: false,
+  })
+  async expandedSearch(
+    embedding: number[],
+    expansion: QueryExpansion,
+    options: {
+      source: SourceCollection;
+      version: EmbeddingVersion;
+      limit: number;
+      numCandidates: number;
+      filters?: SearchFilters;
+    },
+  ) {
+    const { source, version, limit, numCandidates, filters } = options;
+    const provider = getEmbeddingProvider(version.embedding);
+    // The hypothetical plots are embedded as documents, the paraphrases as queries so that they can be cached
+    const variantEmbeddings = await Promise.all(
+      expansion.variants.map(async (variant) =>
+        expansion.strategy === 'hyde'
+          ? getEmbedding(variant, 'search_document', provider)
+          : (await getQueryEmbedding(variant, provider)).embedding
+      ),
+    );
+    // Retrieve a wider window from each list so that the fusion has enough overlap
+    const window = Math.min(
+      numCandidates,
+      limit * EXPANSION_RANK_WINDOW_FACTOR,
+    );
+
+    const lists = await Promise.all(
+      [embedding, ...variantEmbeddings].map((vector) =>
+        this.knnSearch(vector, {
+          source,
+          version,
+          limit: window,
+          numCandidates,
+          filters,
+        })
+      ),
+    );
+
+    return reciprocalRankFusion(
+      lists.map((results, index) => ({
+        name: String(index),
+        weight: 1,
+        results,
+      })),
+    )
+      .slice(0, limit)
+      .map(({ ranks, ...result }) => ({
+        ...result,
+        variantRanks: lists.map((_, index) => ranks[index]),
+      }));
+  }
+
+  /**
+   * Generates variants of the query using a Bedrock text model.
+   *
+   * @param query - The search query
+   * @param options - The expansion strategy and the number of paraphrases
+   */
+  @tracer.captureMethod({ subSegmentName: '### expand' })
+  async expand(
+    query: string,
+    options: { strategy: ExpansionStrategy; count: number },
+  ): Promise<QueryExpansion> {
+    const expansion = await expandQuery(query, options);
+    tracer.putAnnotation('queryExpansion', expansion.strategy);
+    tracer.putAnnotation('queryExpanded', expansion.expanded);
+
+    return expansion;
+  }
+
+  /**
+   * Splits the query into its semantic part and its structured constraints using a Bedrock text model.
+   *
+   * @param query - The search query
+   */
+  @tracer.captureMethod({ subSegmentName: '### understand' })
+  async understand(query: string): Promise<QueryInterpretation> {
+    const interpretation = await understandQuery(query);
+    tracer.putAnnotation('queryUnderstood', interpretation.understood);
+
+    return interpretation;
+  }
+
+  /**
+   * Rescores the results of the first stage with the configured reranker, then returns the `limit` results
+   * with the highest rerank score. Each result keeps its original `score` and gets its `rerankScore`.
+   * The text of each result is composed from the fields of the projection of the source, i.e. `<title>: <plot>`.
+   *
+   * @param source - The source collection of the results
+   * @param query - The search query
+   * @param results - The results of the first stage
+   * @param limit - The number of results to return
+   */
+  @tracer.captureMethod({
+    subSegmentName: '### rerank',
+    captureResponse: false,
+  })
+  async rerank<T extends WithId<Document>>(
+    source: SourceCollection,
+    query: string,
+    results: T[],
+    limit: number,
+  ): Promise<(T & { rerankScore: number })[]> {
+    const reranker = getReranker();
+    if (!reranker) {
+      throw new Error('No reranker is configured');
+    }
+    tracer.putAnnotation('reranker', reranker.name);
+    const scores = await reranker.rerank(
+      query,
+      results.map((result) =>
+        source.projection
+          .map((path) => getFieldByPath(result, path) ?? '')
+          .join(': ')
+      ),
+    );
+    logger.info('Results reranked', {
+      reranker: reranker.name,
+      candidates: results.length,
+    });
+
+    // The sort is stable, results with the same rerank score keep their original order
+    return results
+      .map((result, index) => ({ ...result, rerankScore: scores[index] }))
+      .sort((a, b) => b.rerankScore - a.rerankScore)
+      .slice(0, limit);
+  }
+
+  /**
+   * Searches the movies similar to the one with the given id using its stored embedding, so that no call
+   * to Bedrock is needed. The movie itself is always the nearest neighbor of its own embedding, so one more
+   * result is requested and the movie is removed from the results.
+   *
+   * @param source - The source collection of the movie
+   * @param id - The `_id` of the movie with its BSON type, see `parseDocumentId`
+   * @param options - The number of results to return, the number of candidates to consider and the pre-filters to apply
+   */
+  @tracer.captureMethod({
+    subSegmentName: '### similarSearch',
+    captureResponse: false,
+  })
+  async similarSearch(
+    source: SourceCollection,
+    id: unknown,
+    options: { limit: number; numCandidates: number; filters?: SearchFilters },
+  ): Promise<{ statusCode: number; body: string }> {
+    const { limit, numCandidates, filters } = options;
+    const { active: version } = await getEmbeddingState(source);
+    const collection = await getSourceCollection(source);
+    const movie = await collection.findOne(
+      { _id: id } as Filter<Document>,
+      { projection: { [version.path]: 1 } },
+    );
+    if (!movie) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ message: 'Movie not found' }),
+      };
+    }
+    const embedding = getFieldByPath(movie, version.path) as
+      | number[]
+      | undefined;
+    if (!embedding) {
+      return {
+        statusCode: 409,
+        body: JSON.stringify({
+          message: 'Movie has no embedding yet, please try again later',
+        }),
+      };
+    }
+
+    const results = await this.knnSearch(embedding, {
+      source,
+      version,
+      limit: limit + 1,
+      numCandidates: Math.max(numCandidates, limit + 1),
+      filters,
+    });
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify(
+        results
+          .filter(({ _id }) =>
+            BSON.EJSON.stringify(_id) !== BSON.EJSON.stringify(movie._id)
+          )
+          .slice(0, limit),
+      ),
+    };
+  }
+
   /**
    * Receives a request from API Gateway, extracts the query and searches the MongoDB Atlas Vector Search index
    * for the nearest neighbors of the embedding of the query, then returns the results.
    *
+   * The request body can optionally contain `limit` and `numCandidates` to tune the vector search,
+   * as well as `filters` to restrict the search to a subset of the movies.
+   *
+   * The `mode` field selects the type of search: `vector` (default), `text` for a full-text search,
+   * or `hybrid` to merge both using Reciprocal Rank Fusion with the optional `weights`.
+   * In `vector` mode, `diversity` re-ranks the results with Maximal Marginal Relevance using its `lambda` trade-off.
+   * Set `understand` to extract the constraints of the query (i.e. years, genres, cast) with a Bedrock text model,
+   * only the rest of the query is searched and the response becomes `{ interpretation, results }`.
+   * In `vector` mode, `expansion` also searches variants of the query generated with its `strategy`, either `multiQuery`
+   * for `count` paraphrases or `hyde` for a hypothetical plot, and merges the results using Reciprocal Rank Fusion.
+   * Set `facets` to count the `genres`, `decade`, `rating` or `languages` of the candidates, the response then becomes
+   * `{ results, facets, meta }`. Set `format` to `envelope` to get this shape without facets, it defaults to the `array` of results.
+   * In `vector` mode with the `envelope` format, the `meta` of the response contains the `nextCursor` of the next page. Set `cursor`
+   * to get that page, the query, the filters and `numCandidates` are then read from the cursor instead of the request.
+   * In `vector` mode with the chunking mode enabled, `passages` searches the passages of the movies instead and groups them
+   * back to their movies using the `max` or `sum` of their scores, each result then contains the best matching passage as `snippet`.
+   * In `vector` mode, `fields` searches the embedding fields of the source with their weights (i.e. `{ "default": 1, "title": 0.5 }`)
+   * and merges the results using weighted score fusion, each result then contains the contribution of each field as `fieldScores`.
+   * Set `collection` to search another source collection than the default one, the other options apply to that collection.
+   * Set `rerank` to rescore `rerankCandidates` results of any mode with the configured reranker and return the best `limit`.
+   * @example
+   * ```json
+   * {
+   *   "query": "a family drama",
+   *   "limit": 5,
+   *   "filters": { "genres": ["Drama"], "year": { "gte": 2000 } },
+   *   "mode": "hybrid",
+   *   "weights": { "vector": 1, "text": 0.5 }
+   * }
+   * ```
+   *
+   * Requests to `GET /movies/{id}/similar` search the movies similar to the given one instead, see `similarSearch`.
+   *
    * @param event - The API Gateway request event
    * @param _context - The Lambda context (unused)
    */
@@ -57,13 +1008,377 @@ class LambdaFunction implements LambdaInterface {
     _context: Context,
   ): Promise<{ statusCode: number; body: string }> {
     try {
+      if (event.resource === '/search/batch') {
+        const {
+          queries,
+          collection,
+        }: { queries?: BatchQuery[]; collection?: string } = JSON.parse(
+          event.body || '{}',
+        );
+        const source = getSource(collection);
+        if (!source) return unknownSourceResponse();
+        if (
+          !Array.isArray(queries)
+          || queries.length === 0
+          || queries.length > SEARCH_BATCH_MAX_QUERIES
+        ) {
+          return {
+            statusCode: 400,
+            body: JSON.stringify({
+              message:
+                `queries must contain between 1 and ${SEARCH_BATCH_MAX_QUERIES} queries`,
+            }),
+          };
+        }
+
+        return await this.batchSearch(source, queries);
+      }
+      if (event.resource === '/movies/{id}/similar') {
+        const parameters = parseSimilarParameters(
+          event.queryStringParameters,
+        );
+        if ('error' in parameters) {
+          return {
+            statusCode: 400,
+            body: JSON.stringify({ message: parameters.error }),
+          };
+        }
+        const source = getSource(event.queryStringParameters?.collection);
+        if (!source) return unknownSourceResponse();
+
+        return await this.similarSearch(
+          source,
+          parseDocumentId(event.pathParameters?.id as string),
+          parameters,
+        );
+      }
+
       const { body } = event;
-      const { query } = JSON.parse(body || '{}');
-      logger.debug('query', { query });
+      const {
+        query,
+        limit = VECTOR_SEARCH_DEFAULT_LIMIT,
+        numCandidates = Math.max(VECTOR_SEARCH_DEFAULT_NUM_CANDIDATES, limit),
+        filters,
+        mode = 'vector',
+        weights,
+        diversity,
+        rerank = false,
+        rerankCandidates = limit * RERANK_CANDIDATES_FACTOR,
+        understand = false,
+        expansion,
+        facets,
+        cursor,
+        passages,
+        fields,
+        collection,
+        format = facets || understand || expansion || cursor
+          ? 'envelope'
+          : 'array',
+      }: {
+        query: string;
+        limit?: number;
+        numCandidates?: number;
+        filters?: SearchFilters;
+        mode?: SearchMode;
+        weights?: { vector?: number; text?: number };
+        diversity?: { lambda?: number };
+        rerank?: boolean;
+        rerankCandidates?: number;
+        understand?: boolean;
+        expansion?: { strategy: ExpansionStrategy; count?: number };
+        facets?: FacetName[];
+        cursor?: string;
+        passages?: { scoring?: PassageScoring };
+        fields?: Record<string, number>;
+        collection?: string;
+        format?: ResponseFormat;
+      } = JSON.parse(body || '{}');
+      logger.debug('query', {
+        query,
+        limit,
+        numCandidates,
+        filters,
+        mode,
+        diversity,
+        rerank,
+        understand,
+        expansion,
+        facets,
+        cursor,
+        passages,
+        fields,
+        collection,
+        format,
+      });
 
+      if (numCandidates < limit) {
+        return {
+          statusCode: 400,
+          body: JSON.stringify({
+            message: 'numCandidates must be greater than or equal to limit',
+          }),
+        };
+      }
+      if (
+        facets
+        && (facets.length === 0
+          || facets.some((facet) => !FACET_NAMES.includes(facet)))
+      ) {
+        return {
+          statusCode: 400,
+          body: JSON.stringify({
+            message: `facets must be among ${FACET_NAMES.join(', ')}`,
+          }),
+        };
+      }
+      if (format === 'array' && (facets || understand || expansion || cursor)) {
+        return {
+          statusCode: 400,
+          body: JSON.stringify({
+            message:
+              'facets, understand, expansion and cursor require the envelope format',
+          }),
+        };
+      }
+      // Only the plain vector search is paginated, the other stages reorder the results of the whole window
+      const paginated = format === 'envelope'
+        && mode === 'vector'
+        && !diversity
+        && !expansion
+        && !passages
+        && !fields
+        && !rerank;
+      if (cursor && (!paginated || understand)) {
+        return {
+          statusCode: 400,
+          body: JSON.stringify({
+            message:
+              'cursor is only supported in vector mode without diversity, expansion, passages, fields, rerank or understand',
+          }),
+        };
+      }
+      let searchCursor: SearchCursor | undefined;
+      try {
+        searchCursor = cursor ? decodeCursor(cursor) : undefined;
+      } catch (error) {
+        logger.warn('Invalid cursor', { cursor, error });
+
+        return {
+          statusCode: 400,
+          body: JSON.stringify({ message: 'cursor is invalid' }),
+        };
+      }
+      // The next pages search the collection of the first page, the collection of the request is ignored
+      const source = getSource(
+        searchCursor ? searchCursor.collection : collection,
+      );
+      if (!source) {
+        return searchCursor
+          ? {
+            statusCode: 410,
+            body: JSON.stringify({
+              message: 'The cursor has expired, please search again',
+            }),
+          }
+          : unknownSourceResponse();
+      }
+      if (diversity && mode !== 'vector') {
+        return {
+          statusCode: 400,
+          body: JSON.stringify({
+            message: 'diversity is only supported in vector mode',
+          }),
+        };
+      }
+      if (expansion && mode !== 'vector') {
+        return {
+          statusCode: 400,
+          body: JSON.stringify({
+            message: 'expansion is only supported in vector mode',
+          }),
+        };
+      }
+      if (expansion && diversity) {
+        return {
+          statusCode: 400,
+          body: JSON.stringify({
+            message: 'diversity and expansion cannot be combined',
+          }),
+        };
+      }
+      if (passages && (mode !== 'vector' || diversity || expansion)) {
+        return {
+          statusCode: 400,
+          body: JSON.stringify({
+            message:
+              'passages is only supported in vector mode without diversity or expansion',
+          }),
+        };
+      }
+      if (passages && !getChunkingConfig()) {
+        return {
+          statusCode: 400,
+          body: JSON.stringify({
+            message: 'passages requires the chunking mode to be enabled',
+          }),
+        };
+      }
+      if (fields && (mode !== 'vector' || diversity || expansion || passages)) {
+        return {
+          statusCode: 400,
+          body: JSON.stringify({
+            message:
+              'fields is only supported in vector mode without diversity, expansion or passages',
+          }),
+        };
+      }
+      const fieldWeightsError = fields && getFieldWeightsError(source, fields);
+      if (fieldWeightsError) {
+        return {
+          statusCode: 400,
+          body: JSON.stringify({ message: fieldWeightsError }),
+        };
+      }
+      if (rerank && !getReranker()) {
+        return {
+          statusCode: 400,
+          body: JSON.stringify({
+            message:
+              'rerank requires a reranker, set via the reranker context key of the stack',
+          }),
+        };
+      }
+      if (diversity && rerank) {
+        return {
+          statusCode: 400,
+          body: JSON.stringify({
+            message: 'diversity and rerank cannot be combined',
+          }),
+        };
+      }
+      // When reranking, the first stage over-fetches the candidates to rescore
+      const window = rerank
+        ? Math.max(limit, Math.min(numCandidates, rerankCandidates))
+        : limit;
+
+      // Split the query into its semantic part, which is searched, and its constraints, which are applied
+      // as pre-filters. The filters of the request take precedence over the extracted ones
+      let interpretation: QueryInterpretation | undefined;
+      let searchQuery = query;
+      let searchFilters = filters;
+      let searchNumCandidates = numCandidates;
+      if (searchCursor) {
+        // The next pages search with the state of the first page, the query of the request is ignored
+        searchFilters = searchCursor.filters;
+        searchNumCandidates = searchCursor.numCandidates;
+      } else if (understand) {
+        interpretation = await this.understand(query);
+        searchQuery = interpretation.semanticQuery;
+        searchFilters = { ...interpretation.filters, ...filters };
+      }
+      let queryExpansion: QueryExpansion | undefined;
+      // The envelope contains the facets, as well as the interpretation and the variants of the query
+      // so that they can be reviewed, while the array keeps the shape expected by the existing clients
+      const respond = (
+        items: WithId<Document>[],
+        extra: {
+          facetCounts?: Facets;
+          version?: EmbeddingVersion;
+          nextCursor?: string | null;
+        } = {},
+      ) => ({
+        statusCode: 200,
+        body: JSON.stringify(
+          format === 'envelope'
+            ? {
+              results: items,
+              ...(extra.facetCounts && { facets: extra.facetCounts }),
+              meta: {
+                count: items.length,
+                collection: source.name,
+                mode,
+                limit,
+                numCandidates: searchNumCandidates,
+                ...(extra.version && { version: extra.version.version }),
+                ...(extra.nextCursor !== undefined
+                  && { nextCursor: extra.nextCursor }),
+                ...(interpretation && { interpretation }),
+                ...(queryExpansion && { expansion: queryExpansion }),
+                ...(fields && { fields }),
+              },
+            }
+            : items,
+        ),
+      });
+
+      if (mode === 'text') {
+        let items: WithId<Document>[];
+        let facetCounts: Facets | undefined;
+        try {
+          const search = async () => {
+            const results = await this.textSearch(source, searchQuery, {
+              limit: window,
+              filters: searchFilters,
+            });
+
+            return rerank
+              ? this.rerank(source, query, results, limit)
+              : results;
+          };
+          // The facets are computed over the `numCandidates` best text matches
+          [items, facetCounts] = await Promise.all([
+            search(),
+            facets
+            && this.facetSearch(
+              source,
+              buildTextSearchStages(source, searchQuery, {
+                limit: numCandidates,
+                filters: searchFilters,
+              }),
+              facets,
+            ),
+          ]);
+        } catch (error) {
+          throw new Error('Unable to search text index', { cause: error });
+        }
+
+        return respond(items, { facetCounts });
+      }
+
+      // Generate the variants of the query while the query is embedded, it doesn't throw
+      const expanding = expansion
+        && this.expand(searchQuery, {
+          strategy: expansion.strategy,
+          count: expansion.count ?? EXPANSION_DEFAULT_VARIANTS,
+        });
+
+      // Embed the query with the model of the active embedding version, and search its index
+      const { active: version } = await getEmbeddingState(source);
       let embedding: number[];
+      let embeddingKey: string;
       try {
-        embedding = await getEmbedding(query);
+        if (searchCursor) {
+          // The next pages read the embedding of the first page from the query embedding cache instead of calling Bedrock
+          const cached = searchCursor.version === version.version
+            ? await getCachedQueryEmbedding(searchCursor.key)
+            : undefined;
+          if (!cached) {
+            return {
+              statusCode: 410,
+              body: JSON.stringify({
+                message: 'The cursor has expired, please search again',
+              }),
+            };
+          }
+          embedding = cached.embedding;
+          embeddingKey = searchCursor.key;
+        } else {
+          // Popular queries are served from the query embedding cache instead of calling Bedrock
+          ({ embedding, key: embeddingKey } = await getQueryEmbedding(
+            searchQuery,
+            getEmbeddingProvider(version.embedding),
+          ));
+        }
         if (!embedding) {
           throw new Error('Empty embedding returned by the API');
         }
@@ -71,19 +1386,122 @@ class LambdaFunction implements LambdaInterface {
         throw new Error('Unable to get embedding', { cause: error });
       }
 
-      let items: unknown[];
+      const offset = searchCursor?.offset ?? 0;
+      let hasMore = false;
+      const search = async (): Promise<WithId<Document>[]> => {
+        let results: WithId<Document>[];
+        if (paginated) {
+          ({ results, hasMore } = await this.pageSearch(embedding, {
+            source,
+            version,
+            limit,
+            numCandidates: searchNumCandidates,
+            filters: searchFilters,
+            offset,
+            after: searchCursor?.last,
+          }));
+        } else if (passages) {
+          results = await this.passageSearch(embedding, {
+            source,
+            version,
+            limit: window,
+            numCandidates,
+            filters: searchFilters,
+            scoring: passages.scoring ?? 'max',
+          });
+        } else if (fields) {
+          results = await this.multiFieldSearch(embedding, {
+            source,
+            version,
+            limit: window,
+            numCandidates,
+            filters: searchFilters,
+            weights: fields,
+          });
+        } else if (mode === 'hybrid') {
+          results = await this.hybridSearch(searchQuery, embedding, {
+            source,
+            version,
+            limit: window,
+            numCandidates,
+            filters: searchFilters,
+            weights: { vector: 1, text: 1, ...weights },
+          });
+        } else if (expanding) {
+          queryExpansion = await expanding;
+          results = await this.expandedSearch(embedding, queryExpansion, {
+            source,
+            version,
+            limit: window,
+            numCandidates,
+            filters: searchFilters,
+          });
+        } else if (diversity) {
+          results = await this.diverseSearch(embedding, {
+            source,
+            version,
+            limit,
+            numCandidates,
+            filters: searchFilters,
+            lambda: diversity.lambda ?? MMR_DEFAULT_LAMBDA,
+          });
+        } else {
+          results = await this.knnSearch(embedding, {
+            source,
+            version,
+            limit: window,
+            numCandidates,
+            filters: searchFilters,
+          });
+        }
+
+        return rerank ? this.rerank(source, query, results, limit) : results;
+      };
+
+      let items: WithId<Document>[];
+      let facetCounts: Facets | undefined;
       try {
-        items = await this.knnSearch(embedding);
+        // The facets are computed over the `numCandidates` nearest neighbors of the query, in every mode
+        [items, facetCounts] = await Promise.all([
+          search(),
+          facets
+          && this.facetSearch(
+            source,
+            [
+              buildVectorSearchStage(embedding, {
+                version,
+                limit: searchNumCandidates,
+                numCandidates: searchNumCandidates,
+                filters: searchFilters,
+              }),
+            ],
+            facets,
+          ),
+        ]);
       } catch (error) {
         throw new Error('Unable to get embedding or search index', {
           cause: error,
         });
       }
 
-      return {
-        statusCode: 200,
-        body: JSON.stringify(items),
-      };
+      // The cursor of the next page points after the last result of this page
+      let nextCursor: string | null | undefined;
+      if (paginated) {
+        const last = items[items.length - 1];
+        nextCursor = hasMore
+          ? encodeCursor({
+            key: embeddingKey,
+            collection: source.name,
+            version: version.version,
+            numCandidates: searchNumCandidates,
+            filters: searchFilters,
+            offset: offset + items.length,
+            last: { score: last.score, id: last._id },
+          })
+          : null;
+      }
+
+      return respond(items, { facetCounts, version, nextCursor });
     } catch (error) {
       logger.error('Unble to get embedding or search index', error as Error);
 
@@ -0,0 +1,105 @@
+import { Duration, Stack } from 'aws-cdk-lib';
+import { Rule, RuleTargetInput, Schedule } from 'aws-cdk-lib/aws-events';
+import { LambdaFunction } from 'aws-cdk-lib/aws-events-targets';
+import { Effect, PolicyStatement } from 'aws-cdk-lib/aws-iam';
+import { type NodejsFunction } from 'aws-cdk-lib/aws-lambda-nodejs';
+import { type Queue } from 'aws-cdk-lib/aws-sqs';
+import { Construct } from 'constructs';
+
+export interface BackfillScheduleConstructProps {
+  /**
+   * The Lambda function that runs the backfill, it must be the one that creates the initial embeddings.
+   */
+  backfillFunction: NodejsFunction;
+  /**
+   * The SQS Queue where the backfill sends the events, its depth is used as backpressure signal.
+   */
+  eventQueue: Queue;
+  /**
+   * How often the backfill runs.
+   * @default Duration.minutes(5)
+   */
+  rate?: Duration;
+  /**
+   * Maximum number of messages in the queue, the backfill doesn't enqueue more documents above it.
+   * @default 100
+   */
+  maxQueueDepth?: number;
+  /**
+   * Maximum number of documents enqueued on each run.
+   * @default 50
+   */
+  chunkSize?: number;
+}
+
+/**
+ * Construct that contains the resources required to backfill the embeddings automatically.
+ * An Amazon EventBridge schedule invokes the backfill Lambda function on an interval, each run
+ * enqueues the next chunk of documents as long as the SQS Queue depth is below the limit so that
+ * the embed function and the Bedrock quotas are never flooded.
+ *
+ * The function disables the schedule by itself once every eligible document has an embedding,
+ * enable the rule again to backfill new documents or a new embedding version.
+ */
+export class BackfillScheduleConstruct extends Construct {
+  /**
+   * Reference to the EventBridge rule that invokes the backfill on a schedule
+   */
+  public rule: Rule;
+
+  public constructor(
+    scope: Construct,
+    id: string,
+    props: BackfillScheduleConstructProps,
+  ) {
+    super(scope, id);
+
+    const {
+      backfillFunction,
+      eventQueue,
+      rate = Duration.minutes(5),
+      maxQueueDepth = 100,
+      chunkSize = 50,
+    } = props;
+
+    // The rule name is set explicitly so that the function can disable the rule without a circular dependency
+    const ruleName = `${Stack.of(this).stackName}-backfill-schedule`;
+    this.rule = new Rule(this, 'BackfillScheduleRule', {
+      ruleName,
+      description: 'Invokes the backfill of the embeddings on a schedule',
+      schedule: Schedule.rate(rate),
+      targets: [
+        new LambdaFunction(backfillFunction, {
+          event: RuleTargetInput.fromObject({ source: 'backfill-schedule' }),
+          retryAttempts: 0,
+        }),
+      ],
+    });
+
+    backfillFunction.addEnvironment('BACKFILL_SCHEDULE_RULE_NAME', ruleName);
+    backfillFunction.addEnvironment(
+      'BACKFILL_MAX_QUEUE_DEPTH',
+      maxQueueDepth.toString(),
+    );
+    backfillFunction.addEnvironment(
+      'BACKFILL_CHUNK_SIZE',
+      chunkSize.toString(),
+    );
+
+    // Grant the function permission to read the queue depth and to disable the schedule
+    eventQueue.grant(backfillFunction, 'sqs:GetQueueAttributes');
+    backfillFunction.addToRolePolicy(
+      new PolicyStatement({
+        effect: Effect.ALLOW,
+        actions: ['events:DisableRule'],
+        resources: [
+          Stack.of(this).formatArn({
+            service: 'events',
+            resource: 'rule',
+            resourceName: ruleName,
+          }),
+        ],
+      }),
+    );
+  }
+}
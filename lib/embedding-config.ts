@@ -0,0 +1,287 @@
+import { getTemplateFields } from '../functions/commons/placeholders';
+
+/**
+ * Configuration of the embedding provider used by the Lambda functions to create embeddings.
+ *
+ * It's read from the `embedding` context key of the CDK app, i.e. in `cdk.json` or via
+ * `cdk deploy --context embedding='{"provider":"titan-v2","dimensions":512}'`.
+ */
+export type EmbeddingConfig =
+  | {
+    /**
+     * Amazon Titan Embeddings G1 - Text (1536 dimensions)
+     */
+    provider: 'titan-v1';
+  }
+  | {
+    /**
+     * Amazon Titan Text Embeddings V2
+     */
+    provider: 'titan-v2';
+    /**
+     * @default 1024
+     */
+    dimensions?: 256 | 512 | 1024;
+    /**
+     * @default true
+     */
+    normalize?: boolean;
+  }
+  | {
+    /**
+     * Cohere Embed v3 (1024 dimensions)
+     */
+    provider: 'cohere';
+    /**
+     * @default 'cohere.embed-english-v3'
+     */
+    modelId?: 'cohere.embed-english-v3' | 'cohere.embed-multilingual-v3';
+  }
+  | {
+    /**
+     * Deterministic local provider that doesn't call Bedrock, for development and tests only
+     */
+    provider: 'fake';
+    /**
+     * @default 1536
+     */
+    dimensions?: number;
+  };
+
+const defaultModelIds: Record<EmbeddingConfig['provider'], string | undefined> =
+  {
+    'titan-v1': 'amazon.titan-embed-text-v1',
+    'titan-v2': 'amazon.titan-embed-text-v2:0',
+    cohere: 'cohere.embed-english-v3',
+    fake: undefined,
+  };
+
+/**
+ * Parses the embedding configuration from the CDK context value, which is an object
+ * when set in `cdk.json` and a JSON string when set via the command line.
+ *
+ * @param value - The value of the `embedding` context key
+ */
+export const parseEmbeddingConfig = (value: unknown): EmbeddingConfig => {
+  const config = typeof value === 'string' ? JSON.parse(value) : value;
+  if (!config) return { provider: 'titan-v1' };
+  if (!(config.provider in defaultModelIds)) {
+    throw new Error(`Unknown embedding provider ${config.provider}`);
+  }
+
+  return config;
+};
+
+/**
+ * Returns the id of the Bedrock model used by the embedding provider, or `undefined`
+ * when the provider doesn't call Bedrock.
+ *
+ * @param config - The embedding configuration
+ */
+export const getEmbeddingModelId = (
+  config: EmbeddingConfig,
+): string | undefined =>
+  config.provider === 'cohere' && config.modelId
+    ? config.modelId
+    : defaultModelIds[config.provider];
+
+/**
+ * Returns the environment variables used by the Lambda functions to create the embedding provider.
+ *
+ * @param config - The embedding configuration
+ */
+export const getEmbeddingEnvironment = (
+  config: EmbeddingConfig,
+): Record<string, string> => {
+  const modelId = getEmbeddingModelId(config);
+
+  return {
+    EMBEDDING_PROVIDER: config.provider,
+    ...(modelId && { EMBEDDING_MODEL_ID: modelId }),
+    ...('dimensions' in config && config.dimensions !== undefined && {
+      EMBEDDING_DIMENSIONS: config.dimensions.toString(),
+    }),
+    ...('normalize' in config && config.normalize !== undefined && {
+      EMBEDDING_NORMALIZE: config.normalize.toString(),
+    }),
+  };
+};
+
+/**
+ * Configuration of a migration of the embeddings to a new version, i.e. when changing the embedding model.
+ *
+ * It's read from the `embeddingMigration` context key of the CDK app, the new version is backfilled
+ * in its own field while the search keeps using the active version until the migration is switched.
+ */
+export type EmbeddingMigrationConfig = {
+  /**
+   * Name of the new version, i.e. `v2`
+   */
+  version: string;
+  /**
+   * Path of the field that contains the embeddings of the new version
+   * @default `embeddings.<version>`
+   */
+  path?: string;
+  /**
+   * Name of the vector search index on the field of the new version
+   */
+  index: string;
+  /**
+   * Ratio (0-1) of documents with an embedding required before switching to the new version
+   * @default 0.99
+   */
+  coverageThreshold?: number;
+  /**
+   * Embedding provider of the new version
+   */
+  embedding: EmbeddingConfig;
+};
+
+/**
+ * Parses the embedding migration configuration from the CDK context value, which is an object
+ * when set in `cdk.json` and a JSON string when set via the command line.
+ *
+ * @param value - The value of the `embeddingMigration` context key
+ */
+export const parseEmbeddingMigrationConfig = (
+  value: unknown,
+): EmbeddingMigrationConfig | undefined => {
+  const config = typeof value === 'string' ? JSON.parse(value) : value;
+  if (!config) return;
+  if (!config.version || !config.index) {
+    throw new Error('Embedding migration requires a version and an index');
+  }
+
+  return { ...config, embedding: parseEmbeddingConfig(config.embedding) };
+};
+
+/**
+ * Returns the environment variable used by the Lambda functions to start the embedding migration.
+ *
+ * @param config - The embedding migration configuration
+ */
+export const getEmbeddingMigrationEnvironment = (
+  config: EmbeddingMigrationConfig,
+): Record<string, string> => {
+  const { embedding, ...migration } = config;
+
+  return {
+    EMBEDDING_MIGRATION: JSON.stringify({
+      ...migration,
+      embedding: {
+        provider: embedding.provider,
+        modelId: getEmbeddingModelId(embedding),
+        ...('dimensions' in embedding && { dimensions: embedding.dimensions }),
+        ...('normalize' in embedding && { normalize: embedding.normalize }),
+      },
+    }),
+  };
+};
+
+/**
+ * Template that composes the text embedded for each document from its fields, i.e. `{title} ({year}). Genres: {genres}. {fullplot}`.
+ *
+ * It's read from the `embeddingTemplate` context key of the CDK app for the default `movies` collection,
+ * and from the `template` of each source when the `sources` context key is set. Bump the version when changing the template
+ * so that the backfill re-embeds the documents embedded with the previous one.
+ */
+export type EmbeddingTemplateConfig = {
+  /**
+   * Version of the template, stored next to each embedding
+   */
+  version: string;
+  /**
+   * Template with `{field}` placeholders, dot-separated paths are supported
+   * @default '{plot}'
+   */
+  template: string;
+};
+
+/**
+ * Parses the embedding template configuration from the CDK context value, which is an object
+ * when set in `cdk.json` and a JSON string when set via the command line.
+ *
+ * @param value - The value of the `embeddingTemplate` context key
+ */
+export const parseEmbeddingTemplateConfig = (
+  value: unknown,
+): EmbeddingTemplateConfig | undefined => {
+  const config = typeof value === 'string' ? JSON.parse(value) : value;
+  if (!config) return;
+  if (
+    !config.version
+    || getTemplateFields({ template: config.template ?? '' }).length === 0
+  ) {
+    throw new Error(
+      'Embedding template requires a version and at least one {field} placeholder',
+    );
+  }
+
+  return config;
+};
+
+/**
+ * Chunking mode, where the text of each document is also split into overlapping passages that are embedded
+ * separately and stored in the `chunks` collection, so that `/search` can retrieve the movies by their best matching passage.
+ *
+ * It's read from the `chunking` context key of the CDK app, i.e. `{"strategy":"sentence","size":3,"overlap":1}`.
+ * Changing it re-chunks the documents at their next change or backfill.
+ */
+export type ChunkingConfig = {
+  /**
+   * `sentence` groups `size` sentences per passage, `token` cuts windows of `size` tokens at word boundaries
+   */
+  strategy: 'sentence' | 'token';
+  /**
+   * Number of sentences or tokens per passage
+   */
+  size: number;
+  /**
+   * Number of sentences or tokens shared by consecutive passages, lower than `size`
+   * @default 0
+   */
+  overlap?: number;
+};
+
+/**
+ * Parses the chunking configuration from the CDK context value, which is an object
+ * when set in `cdk.json` and a JSON string when set via the command line.
+ *
+ * @param value - The value of the `chunking` context key
+ */
+export const parseChunkingConfig = (
+  value: unknown,
+): ChunkingConfig | undefined => {
+  const config = typeof value === 'string' ? JSON.parse(value) : value;
+  if (!config) return;
+  if (!['sentence', 'token'].includes(config.strategy)) {
+    throw new Error(`Unknown chunking strategy ${config.strategy}`);
+  }
+  const { size, overlap = 0 } = config;
+  if (
+    !Number.isInteger(size) || size < 1
+    || !Number.isInteger(overlap) || overlap < 0 || overlap >= size
+  ) {
+    throw new Error(
+      'Chunking requires an integer size and an integer overlap lower than the size',
+    );
+  }
+
+  return config;
+};
+
+/**
+ * Returns the environment variable used by the Lambda functions to split the text into passages.
+ *
+ * @param config - The chunking configuration
+ */
+export const getChunkingEnvironment = (
+  config: ChunkingConfig,
+): Record<string, string> => ({
+  EMBEDDING_CHUNKING: JSON.stringify({
+    strategy: config.strategy,
+    size: config.size,
+    overlap: config.overlap ?? 0,
+  }),
+});
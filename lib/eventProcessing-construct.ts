@@ -76,6 +76,7 @@ export class EventProcessingConstruct extends Construct {
       retentionPeriod: Duration.days(1),
       visibilityTimeout: Duration.minutes(2),
       deadLetterQueue: {
+        // Keep in sync with EVENT_QUEUE_MAX_RECEIVE_COUNT in functions/commons/constants.ts
         maxReceiveCount: 3,
         queue: this.dlqEventQueue,
       },
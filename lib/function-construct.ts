@@ -78,24 +78,13 @@ export class FunctionConstruct extends Construct {
             }),
           ],
         }),
-        BedrockPolicy: new PolicyDocument({
-          statements: [
-            new PolicyStatement({
-              effect: Effect.ALLOW,
-              actions: ['bedrock:InvokeModel'],
-              resources: [
-                `arn:aws:bedrock:us-east-1::foundation-model/amazon.titan-embed-text-v1`,
-              ],
-            }),
-          ],
-        }),
       },
     });
     NagSuppressions.addResourceSuppressions(role, [
       {
         id: 'AwsSolutions-IAM5',
         reason:
-          'Wildcards are used because the Lambda function name is not known, as well as the VPC resources, and the Bedrock model resource',
+          'Wildcards are used because the Lambda function name is not known, as well as the VPC resources',
       },
     ], true);
 
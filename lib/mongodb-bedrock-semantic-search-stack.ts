@@ -1,10 +1,29 @@
-import { CfnParameter, Stack, type StackProps } from 'aws-cdk-lib';
+import { CfnParameter, Duration, Stack, type StackProps } from 'aws-cdk-lib';
+import { Effect, PolicyStatement } from 'aws-cdk-lib/aws-iam';
 import { NagSuppressions } from 'cdk-nag';
 import { Construct } from 'constructs';
+import { BackfillScheduleConstruct } from './backfillSchedule-construct';
+import {
+  getChunkingEnvironment,
+  getEmbeddingEnvironment,
+  getEmbeddingMigrationEnvironment,
+  getEmbeddingModelId,
+  parseChunkingConfig,
+  parseEmbeddingConfig,
+  parseEmbeddingMigrationConfig,
+  parseEmbeddingTemplateConfig,
+} from './embedding-config';
 import { EventProcessingConstruct } from './eventProcessing-construct';
 import { NetworkConstruct } from './network-construct';
+import {
+  getRerankerEnvironment,
+  getRerankerModelId,
+  getRerankerRegion,
+  parseRerankerConfig,
+} from './reranker-config';
 import { SearchAPIConstruct } from './searchApi-construct';
 import { SecretsConstruct } from './secrets-construct';
+import { getSourcesEnvironment, parseSourcesConfig } from './sources-config';
 
 export class MongodbBedrockSemanticSearchStack extends Stack {
   constructor(scope: Construct, id: string, props?: StackProps) {
@@ -50,13 +69,25 @@ export class MongodbBedrockSemanticSearchStack extends Stack {
           eventBridgePartnerEventBusName.valueAsString,
       },
     );
-    const { searchFunction, createInitialEmbeddingsFunction } =
-      new SearchAPIConstruct(this, 'SearchAPI', {
-        vpc,
-      });
+    const {
+      searchFunction,
+      askFunction,
+      askStreamFunction,
+      createInitialEmbeddingsFunction,
+      migrationsFunction,
+    } = new SearchAPIConstruct(this, 'SearchAPI', {
+      vpc,
+    });
 
     // Grant all the Lambda functions permission to read the MongoDB Atlas connection string secret
-    [embedFunction, searchFunction, createInitialEmbeddingsFunction].forEach(
+    [
+      embedFunction,
+      searchFunction,
+      askFunction,
+      askStreamFunction,
+      createInitialEmbeddingsFunction,
+      migrationsFunction,
+    ].forEach(
       (fn) => {
         mongoDBConnectionStringSecret.grantRead(fn);
         fn.addEnvironment(
@@ -65,6 +96,134 @@ export class MongodbBedrockSemanticSearchStack extends Stack {
         );
       },
     );
+    // Configure the embedding provider, the source collections and the template of their embedded text, the chunking mode, and the migration to a new embedding version if any, of the Lambda functions
+    // that use the embeddings. Then, unless the providers don't call Bedrock, grant the functions that create
+    // embeddings permission to invoke only the chosen models
+    const embeddingConfig = parseEmbeddingConfig(
+      this.node.tryGetContext('embedding'),
+    );
+    const embeddingMigrationConfig = parseEmbeddingMigrationConfig(
+      this.node.tryGetContext('embeddingMigration'),
+    );
+    const sources = parseSourcesConfig(
+      this.node.tryGetContext('sources'),
+      parseEmbeddingTemplateConfig(
+        this.node.tryGetContext('embeddingTemplate'),
+      ),
+    );
+    const chunkingConfig = parseChunkingConfig(
+      this.node.tryGetContext('chunking'),
+    );
+    const embeddingEnvironment = {
+      ...getEmbeddingEnvironment(embeddingConfig),
+      ...getSourcesEnvironment(sources),
+      ...(chunkingConfig && getChunkingEnvironment(chunkingConfig)),
+      ...(embeddingMigrationConfig
+        && getEmbeddingMigrationEnvironment(embeddingMigrationConfig)),
+    };
+    [
+      embedFunction,
+      searchFunction,
+      askFunction,
+      askStreamFunction,
+      createInitialEmbeddingsFunction,
+      migrationsFunction,
+    ].forEach((fn) => {
+      Object.entries(embeddingEnvironment).forEach(([key, value]) =>
+        fn.addEnvironment(key, value)
+      );
+    });
+    const embeddingModelIds = [
+      getEmbeddingModelId(embeddingConfig),
+      embeddingMigrationConfig
+      && getEmbeddingModelId(embeddingMigrationConfig.embedding),
+    ].filter((modelId): modelId is string => !!modelId);
+    if (embeddingModelIds.length > 0) {
+      [
+        embedFunction,
+        searchFunction,
+        askFunction,
+        askStreamFunction,
+      ].forEach((fn) => {
+        fn.addToRolePolicy(
+          new PolicyStatement({
+            effect: Effect.ALLOW,
+            actions: ['bedrock:InvokeModel'],
+            resources: embeddingModelIds.map((modelId) =>
+              `arn:aws:bedrock:us-east-1::foundation-model/${modelId}`
+            ),
+          }),
+        );
+      });
+    }
+    // Bedrock text model used to generate the answers of the `/ask` route and of its streaming counterpart,
+    // it can be changed via the `answerModelId` context key
+    const answerModelId: string = this.node.tryGetContext('answerModelId')
+      || 'anthropic.claude-3-haiku-20240307-v1:0';
+    [askFunction, askStreamFunction].forEach((fn) => {
+      fn.addEnvironment('ANSWER_MODEL_ID', answerModelId);
+      fn.addToRolePolicy(
+        new PolicyStatement({
+          effect: Effect.ALLOW,
+          actions: [
+            'bedrock:InvokeModel',
+            'bedrock:InvokeModelWithResponseStream',
+          ],
+          resources: [
+            `arn:aws:bedrock:us-east-1::foundation-model/${answerModelId}`,
+          ],
+        }),
+      );
+    });
+
+    // Reranker used by the search when a request asks for it, only when set via the `reranker` context key
+    const rerankerConfig = parseRerankerConfig(
+      this.node.tryGetContext('reranker'),
+    );
+    const rerankerEnvironment = rerankerConfig
+      ? getRerankerEnvironment(rerankerConfig)
+      : {};
+    Object.entries(rerankerEnvironment).forEach(([key, value]) =>
+      searchFunction.addEnvironment(key, value)
+    );
+    const rerankerModelId = rerankerConfig
+      && getRerankerModelId(rerankerConfig);
+    if (rerankerModelId) {
+      searchFunction.addToRolePolicy(
+        new PolicyStatement({
+          effect: Effect.ALLOW,
+          actions: ['bedrock:InvokeModel'],
+          resources: [
+            `arn:aws:bedrock:${
+              getRerankerRegion(rerankerConfig)
+            }::foundation-model/${rerankerModelId}`,
+          ],
+        }),
+      );
+    }
+
+    // Text models used by the search to extract filters from the query and to expand the query when a request
+    // asks for it, they can be changed via the `queryUnderstandingModelId` and `queryExpansionModelId` context keys
+    const queryModelIds: Record<string, string> = {
+      QUERY_UNDERSTANDING_MODEL_ID:
+        this.node.tryGetContext('queryUnderstandingModelId')
+        || 'anthropic.claude-3-haiku-20240307-v1:0',
+      QUERY_EXPANSION_MODEL_ID: this.node.tryGetContext('queryExpansionModelId')
+        || 'anthropic.claude-3-haiku-20240307-v1:0',
+    };
+    Object.entries(queryModelIds).forEach(([key, value]) =>
+      searchFunction.addEnvironment(key, value)
+    );
+    searchFunction.addToRolePolicy(
+      new PolicyStatement({
+        effect: Effect.ALLOW,
+        actions: ['bedrock:InvokeModel'],
+        resources: [...new Set(Object.values(queryModelIds))].map(
+          (modelId) => `arn:aws:bedrock:us-east-1::foundation-model/${modelId}`,
+        ),
+      }),
+    );
+
     // Grant the Lambda function that creates the initial embeddings permission to send messages to the SQS Queue
     eventQueue.grantSendMessages(createInitialEmbeddingsFunction);
     createInitialEmbeddingsFunction.addEnvironment(
@@ -72,6 +231,20 @@ export class MongodbBedrockSemanticSearchStack extends Stack {
       eventQueue.queueUrl,
     );
 
+    // Schedule that backfills the embeddings automatically, it can be tuned via the `backfillSchedule` context key
+    const backfillScheduleContext = this.node.tryGetContext('backfillSchedule');
+    const { rateMinutes, maxQueueDepth, chunkSize } =
+      typeof backfillScheduleContext === 'string'
+        ? JSON.parse(backfillScheduleContext)
+        : backfillScheduleContext || {};
+    new BackfillScheduleConstruct(this, 'BackfillSchedule', {
+      backfillFunction: createInitialEmbeddingsFunction,
+      eventQueue,
+      rate: rateMinutes ? Duration.minutes(rateMinutes) : undefined,
+      maxQueueDepth,
+      chunkSize,
+    });
+
     NagSuppressions.addResourceSuppressionsByPath(
       this,
       [
@@ -59,11 +59,12 @@ export class NetworkConstruct extends Construct {
       this.vpc = vpc;
     }
 
-    // VPC Endpoints to access Amazon SQS, Amazon Secrets Manager and Bedrock Runtime privately
+    // VPC Endpoints to access Amazon SQS, Amazon Secrets Manager, Amazon EventBridge and Bedrock Runtime privately
     [
       ['BedrockEndpoint', 'com.amazonaws.us-east-1.bedrock-runtime'],
       ['SecretsManagerEndpoint', 'com.amazonaws.us-east-1.secretsmanager'],
       ['SQSEndpoint', 'com.amazonaws.us-east-1.sqs'],
+      ['EventBridgeEndpoint', 'com.amazonaws.us-east-1.events'],
     ].forEach(([id, name]) => {
       this.vpc.addInterfaceEndpoint(id, {
         service: {
@@ -111,6 +112,7 @@ export class NetworkConstruct extends Construct {
         '/MongodbBedrockSemanticSearchStack/Network/VPC/BedrockEndpoint/SecurityGroup/Resource',
         '/MongodbBedrockSemanticSearchStack/Network/VPC/SecretsManagerEndpoint/SecurityGroup/Resource',
         '/MongodbBedrockSemanticSearchStack/Network/VPC/SQSEndpoint/SecurityGroup/Resource',
+        '/MongodbBedrockSemanticSearchStack/Network/VPC/EventBridgeEndpoint/SecurityGroup/Resource',
         '/MongodbBedrockSemanticSearchStack/Network/MongoDBAtlasEndpointSecurityGroup/Resource',
       ],
       [
@@ -0,0 +1,104 @@
+/**
+ * Configuration of the reranker used by the search Lambda function to rescore the results when requested.
+ *
+ * It's read from the `reranker` context key of the CDK app, i.e. in `cdk.json` or via
+ * `cdk deploy --context reranker='{"provider":"bedrock","modelId":"amazon.rerank-v1:0","region":"us-west-2"}'`.
+ * When it's not set, no reranker is configured and the search refuses to rerank, so that the cost of reranking is opted into.
+ */
+export type RerankerConfig =
+  | {
+    /**
+     * Bedrock-hosted rerank model
+     */
+    provider: 'bedrock';
+    /**
+     * @default 'cohere.rerank-v3-5:0'
+     */
+    modelId?: 'cohere.rerank-v3-5:0' | 'amazon.rerank-v1:0';
+    /**
+     * Region of the Bedrock Runtime that hosts the rerank model, which is not available in `us-east-1`
+     * where the other models are invoked
+     * @default 'us-west-2'
+     */
+    region?: string;
+  }
+  | {
+    /**
+     * Bedrock text model that scores each result separately (pointwise)
+     */
+    provider: 'llm';
+    /**
+     * Id of an Anthropic Claude or Amazon Titan Text model
+     * @default 'anthropic.claude-3-haiku-20240307-v1:0'
+     */
+    modelId?: string;
+  }
+  | {
+    /**
+     * Deterministic local reranker that doesn't call Bedrock, for development and tests only
+     */
+    provider: 'local';
+  };
+
+const defaultModelIds: Record<RerankerConfig['provider'], string | undefined> =
+  {
+    bedrock: 'cohere.rerank-v3-5:0',
+    llm: 'anthropic.claude-3-haiku-20240307-v1:0',
+    local: undefined,
+  };
+
+/**
+ * Parses the reranker configuration from the CDK context value, which is an object
+ * when set in `cdk.json` and a JSON string when set via the command line.
+ *
+ * @param value - The value of the `reranker` context key
+ */
+export const parseRerankerConfig = (
+  value: unknown,
+): RerankerConfig | undefined => {
+  const config = typeof value === 'string' ? JSON.parse(value) : value;
+  if (!config) return;
+  if (!(config.provider in defaultModelIds)) {
+    throw new Error(`Unknown reranker provider ${config.provider}`);
+  }
+
+  return config;
+};
+
+/**
+ * Returns the id of the Bedrock model used by the reranker, or `undefined` when the reranker doesn't call Bedrock.
+ *
+ * @param config - The reranker configuration
+ */
+export const getRerankerModelId = (
+  config: RerankerConfig,
+): string | undefined =>
+  'modelId' in config && config.modelId
+    ? config.modelId
+    : defaultModelIds[config.provider];
+
+/**
+ * Returns the region of the Bedrock Runtime invoked by the reranker.
+ *
+ * @param config - The reranker configuration
+ */
+export const getRerankerRegion = (config: RerankerConfig): string =>
+  config.provider === 'bedrock' ? config.region ?? 'us-west-2' : 'us-east-1';
+
+/**
+ * Returns the environment variables used by the search Lambda function to create the reranker.
+ *
+ * @param config - The reranker configuration
+ */
+export const getRerankerEnvironment = (
+  config: RerankerConfig,
+): Record<string, string> => {
+  const modelId = getRerankerModelId(config);
+
+  return {
+    RERANKER_PROVIDER: config.provider,
+    ...(modelId && { RERANKER_MODEL_ID: modelId }),
+    ...(config.provider === 'bedrock'
+      && { RERANKER_REGION: getRerankerRegion(config) }),
+  };
+};
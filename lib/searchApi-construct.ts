@@ -1,6 +1,7 @@
-import { Stack } from 'aws-cdk-lib';
+import { CfnOutput, Stack } from 'aws-cdk-lib';
 import {
   AuthorizationType,
+  type JsonSchema,
   JsonSchemaType,
   LambdaIntegration,
   Model,
@@ -17,11 +18,70 @@ import {
   PolicyStatement,
   StarPrincipal,
 } from 'aws-cdk-lib/aws-iam';
+import {
+  type FunctionUrl,
+  FunctionUrlAuthType,
+  InvokeMode,
+} from 'aws-cdk-lib/aws-lambda';
 import { type NodejsFunction } from 'aws-cdk-lib/aws-lambda-nodejs';
 import { NagSuppressions } from 'cdk-nag';
 import { Construct } from 'constructs';
 import { FunctionConstruct } from './function-construct';
 
+/**
+ * JSON schema of the structured pre-filters accepted by the search routes,
+ * it mirrors the `SearchFilters` type used by the search Lambda function.
+ */
+const searchFiltersSchema: JsonSchema = {
+  type: JsonSchemaType.OBJECT,
+  additionalProperties: false,
+  properties: {
+    genres: {
+      type: JsonSchemaType.ARRAY,
+      items: { type: JsonSchemaType.STRING },
+      minItems: 1,
+    },
+    year: {
+      type: JsonSchemaType.OBJECT,
+      additionalProperties: false,
+      properties: {
+        gte: { type: JsonSchemaType.INTEGER },
+        lte: { type: JsonSchemaType.INTEGER },
+      },
+    },
+    rated: {
+      type: JsonSchemaType.ARRAY,
+      items: { type: JsonSchemaType.STRING },
+      minItems: 1,
+    },
+    languages: {
+      type: JsonSchemaType.ARRAY,
+      items: { type: JsonSchemaType.STRING },
+      minItems: 1,
+    },
+    minImdbRating: {
+      type: JsonSchemaType.NUMBER,
+      minimum: 0,
+      maximum: 10,
+    },
+    countries: {
+      type: JsonSchemaType.ARRAY,
+      items: { type: JsonSchemaType.STRING },
+      minItems: 1,
+    },
+    cast: {
+      type: JsonSchemaType.ARRAY,
+      items: { type: JsonSchemaType.STRING },
+      minItems: 1,
+    },
+    directors: {
+      type: JsonSchemaType.ARRAY,
+      items: { type: JsonSchemaType.STRING },
+      minItems: 1,
+    },
+  },
+};
+
 export interface SearchAPIConstructProps {
   /**
    * Rest API to be used by the construct to add the search routes, if not provided a new one will be created.
@@ -37,7 +97,7 @@ export interface SearchAPIConstructProps {
 /**
  * Construct that contains the resources needed to expose the search functionality via a Rest API.
  * It creates a Rest API with two routes and two Lambda functions, one to search the MongoDB Atlas Vector Search index
- * and another one to create the initial embeddings.
+ * and another one to create the initial embeddings, as well as a route that answers questions using the search results.
  *
  * You can provide your own Rest API, and the construct will add the routes to it.
  */
@@ -54,6 +114,22 @@ export class SearchAPIConstruct extends Construct {
    * Reference to the Lambda function that creates the initial embeddings.
    */
   createInitialEmbeddingsFunction: NodejsFunction;
+  /**
+   * Reference to the Lambda function that answers questions using the movies retrieved from the vector search.
+   */
+  askFunction: NodejsFunction;
+  /**
+   * Reference to the Lambda function that answers questions like the `askFunction`, but streams the answers.
+   */
+  askStreamFunction: NodejsFunction;
+  /**
+   * Reference to the function URL of the `askStreamFunction`, API Gateway Rest APIs can't stream responses.
+   */
+  askStreamUrl: FunctionUrl;
+  /**
+   * Reference to the Lambda function that manages the migration of the embeddings to a new version.
+   */
+  migrationsFunction: NodejsFunction;
 
   public constructor(
     scope: Construct,
@@ -79,6 +155,17 @@ export class SearchAPIConstruct extends Construct {
               resources: [
                 'execute-api:/prod/GET/create-initial-embeddings',
                 'execute-api:/prod/POST/search',
+                'execute-api:/prod/POST/search/batch',
+                'execute-api:/prod/POST/ask',
+                'execute-api:/prod/GET/movies/*/similar',
+                'execute-api:/prod/GET/migrations',
+                'execute-api:/prod/POST/migrations',
+                'execute-api:/prod/POST/migrations/switch',
+                'execute-api:/prod/POST/migrations/cleanup',
+                'execute-api:/prod/DELETE/cache/query-embeddings',
+                'execute-api:/prod/POST/backfill',
+                'execute-api:/prod/GET/backfill/*',
+                'execute-api:/prod/POST/backfill/*',
               ],
             }),
           ],
@@ -127,6 +214,32 @@ export class SearchAPIConstruct extends Construct {
     });
     this.searchFunction = searchFunction.lambdaFunction;
 
+    const askFunction = new FunctionConstruct(this, 'AskFunction', {
+      vpc,
+      entry: 'functions/ask/index.ts',
+    });
+    this.askFunction = askFunction.lambdaFunction;
+
+    // Same code as the function above, with the handler that streams the answers as server-sent events
+    const askStreamFunction = new FunctionConstruct(
+      this,
+      'AskStreamFunction',
+      {
+        vpc,
+        entry: 'functions/ask/index.ts',
+        handler: 'streamHandler',
+      },
+    );
+    this.askStreamFunction = askStreamFunction.lambdaFunction;
+    this.askStreamUrl = this.askStreamFunction.addFunctionUrl({
+      authType: FunctionUrlAuthType.AWS_IAM,
+      invokeMode: InvokeMode.RESPONSE_STREAM,
+    });
+    new CfnOutput(this, 'AskStreamURL', {
+      value: this.askStreamUrl.url,
+      description: 'URL of the function that streams the answers to questions',
+    });
+
     const createInitialEmbeddingsFunction = new FunctionConstruct(
       this,
       'CreateInitialEmbeddingsFn',
@@ -138,18 +251,29 @@ export class SearchAPIConstruct extends Construct {
     this.createInitialEmbeddingsFunction =
       createInitialEmbeddingsFunction.lambdaFunction;
 
+    const migrationsFunction = new FunctionConstruct(
+      this,
+      'MigrationsFunction',
+      {
+        vpc,
+        entry: 'functions/migrations/index.ts',
+      },
+    );
+    this.migrationsFunction = migrationsFunction.lambdaFunction;
+
     // Add the routes to the Rest API
+    const bodyValidator = new RequestValidator(this, 'body-validator', {
+      restApi: this.restApi,
+      validateRequestBody: true,
+      requestValidatorName: 'body-validator',
+    });
     const searchResource = this.restApi.root.addResource('search');
     searchResource.addMethod(
       'POST',
       new LambdaIntegration(this.searchFunction),
       {
         authorizationType: AuthorizationType.IAM,
-        requestValidator: new RequestValidator(this, 'body-validator', {
-          restApi: this.restApi,
-          validateRequestBody: true,
-          requestValidatorName: 'body-validator',
-        }),
+        requestValidator: bodyValidator,
         requestModels: {
           'application/json': new Model(this, 'SearchRequestModel', {
             restApi: this.restApi,
@@ -157,11 +281,165 @@ export class SearchAPIConstruct extends Construct {
             modelName: 'SearchRequestModel',
             schema: {
               type: JsonSchemaType.OBJECT,
-              required: ['query'],
+              // The next pages only need the cursor of the previous page
+              anyOf: [{ required: ['query'] }, { required: ['cursor'] }],
               properties: {
                 query: {
                   type: JsonSchemaType.STRING,
                 },
+                cursor: {
+                  type: JsonSchemaType.STRING,
+                  minLength: 1,
+                  maxLength: 4096,
+                },
+                limit: {
+                  type: JsonSchemaType.INTEGER,
+                  minimum: 1,
+                  maximum: 50,
+                },
+                numCandidates: {
+                  type: JsonSchemaType.INTEGER,
+                  minimum: 1,
+                  maximum: 10000,
+                },
+                filters: searchFiltersSchema,
+                fields: {
+                  type: JsonSchemaType.OBJECT,
+                  minProperties: 1,
+                  additionalProperties: {
+                    type: JsonSchemaType.NUMBER,
+                    minimum: 0,
+                  },
+                },
+                collection: {
+                  type: JsonSchemaType.STRING,
+                  minLength: 1,
+                },
+                mode: {
+                  type: JsonSchemaType.STRING,
+                  enum: ['vector', 'text', 'hybrid'],
+                },
+                weights: {
+                  type: JsonSchemaType.OBJECT,
+                  additionalProperties: false,
+                  properties: {
+                    vector: { type: JsonSchemaType.NUMBER, minimum: 0 },
+                    text: { type: JsonSchemaType.NUMBER, minimum: 0 },
+                  },
+                },
+                diversity: {
+                  type: JsonSchemaType.OBJECT,
+                  additionalProperties: false,
+                  properties: {
+                    lambda: {
+                      type: JsonSchemaType.NUMBER,
+                      minimum: 0,
+                      maximum: 1,
+                    },
+                  },
+                },
+                rerank: {
+                  type: JsonSchemaType.BOOLEAN,
+                },
+                understand: {
+                  type: JsonSchemaType.BOOLEAN,
+                },
+                facets: {
+                  type: JsonSchemaType.ARRAY,
+                  items: {
+                    type: JsonSchemaType.STRING,
+                    enum: ['genres', 'decade', 'rating', 'languages'],
+                  },
+                  minItems: 1,
+                  uniqueItems: true,
+                },
+                format: {
+                  type: JsonSchemaType.STRING,
+                  enum: ['array', 'envelope'],
+                },
+                expansion: {
+                  type: JsonSchemaType.OBJECT,
+                  additionalProperties: false,
+                  required: ['strategy'],
+                  properties: {
+                    strategy: {
+                      type: JsonSchemaType.STRING,
+                      enum: ['multiQuery', 'hyde'],
+                    },
+                    count: {
+                      type: JsonSchemaType.INTEGER,
+                      minimum: 1,
+                      maximum: 5,
+                    },
+                  },
+                },
+                passages: {
+                  type: JsonSchemaType.OBJECT,
+                  additionalProperties: false,
+                  properties: {
+                    scoring: {
+                      type: JsonSchemaType.STRING,
+                      enum: ['max', 'sum'],
+                    },
+                  },
+                },
+                rerankCandidates: {
+                  type: JsonSchemaType.INTEGER,
+                  minimum: 1,
+                  maximum: 200,
+                },
+              },
+            },
+          }),
+        },
+      },
+    );
+    // Many queries in one request, handled by the search function
+    searchResource.addResource('batch').addMethod(
+      'POST',
+      new LambdaIntegration(this.searchFunction),
+      {
+        authorizationType: AuthorizationType.IAM,
+        requestValidator: bodyValidator,
+        requestModels: {
+          'application/json': new Model(this, 'SearchBatchRequestModel', {
+            restApi: this.restApi,
+            contentType: 'application/json',
+            modelName: 'SearchBatchRequestModel',
+            schema: {
+              type: JsonSchemaType.OBJECT,
+              required: ['queries'],
+              properties: {
+                collection: {
+                  type: JsonSchemaType.STRING,
+                  minLength: 1,
+                },
+                queries: {
+                  type: JsonSchemaType.ARRAY,
+                  minItems: 1,
+                  maxItems: 100,
+                  items: {
+                    type: JsonSchemaType.OBJECT,
+                    required: ['query'],
+                    properties: {
+                      query: {
+                        type: JsonSchemaType.STRING,
+                        minLength: 1,
+                      },
+                      limit: {
+                        type: JsonSchemaType.INTEGER,
+                        minimum: 1,
+                        maximum: 50,
+                      },
+                      numCandidates: {
+                        type: JsonSchemaType.INTEGER,
+                        minimum: 1,
+                        maximum: 10000,
+                      },
+                      filters: searchFiltersSchema,
+                    },
+                  },
+                },
               },
             },
           }),
@@ -175,6 +453,77 @@ export class SearchAPIConstruct extends Construct {
       },
     ], true);
 
+    // Movies similar to a given one, handled by the search function using the stored embedding of the movie
+    const moviesResource = this.restApi.root.addResource('movies');
+    moviesResource.addResource('{id}').addResource('similar').addMethod(
+      'GET',
+      new LambdaIntegration(this.searchFunction),
+      {
+        authorizationType: AuthorizationType.IAM,
+        requestParameters: {
+          'method.request.path.id': true,
+          'method.request.querystring.limit': false,
+          'method.request.querystring.numCandidates': false,
+          'method.request.querystring.filters': false,
+        },
+      },
+    );
+    NagSuppressions.addResourceSuppressions(moviesResource, [
+      {
+        id: 'AwsSolutions-COG4',
+        reason: 'Method uses IAM Authorization instead',
+      },
+    ], true);
+
+    const askResource = this.restApi.root.addResource('ask');
+    askResource.addMethod('POST', new LambdaIntegration(this.askFunction), {
+      authorizationType: AuthorizationType.IAM,
+      requestValidator: bodyValidator,
+      requestModels: {
+        'application/json': new Model(this, 'AskRequestModel', {
+          restApi: this.restApi,
+          contentType: 'application/json',
+          modelName: 'AskRequestModel',
+          schema: {
+            type: JsonSchemaType.OBJECT,
+            required: ['query'],
+            properties: {
+              query: {
+                type: JsonSchemaType.STRING,
+                minLength: 1,
+              },
+              k: {
+                type: JsonSchemaType.INTEGER,
+                minimum: 1,
+                maximum: 20,
+              },
+              promptTemplate: {
+                type: JsonSchemaType.STRING,
+                maxLength: 10000,
+              },
+              maxTokens: {
+                type: JsonSchemaType.INTEGER,
+                minimum: 1,
+                maximum: 4096,
+              },
+              minScore: {
+                type: JsonSchemaType.NUMBER,
+                minimum: 0,
+                maximum: 1,
+              },
+              filters: searchFiltersSchema,
+            },
+          },
+        }),
+      },
+    });
+    NagSuppressions.addResourceSuppressions(askResource, [
+      {
+        id: 'AwsSolutions-COG4',
+        reason: 'Method uses IAM Authorization instead',
+      },
+    ], true);
+
     const embedResource = this.restApi.root
       .addResource('create-initial-embeddings');
     embedResource.addMethod(
@@ -184,6 +533,7 @@ export class SearchAPIConstruct extends Construct {
         authorizationType: AuthorizationType.IAM,
         requestParameters: {
           'method.request.querystring.count': true,
+          'method.request.querystring.version': false,
         },
         requestValidatorOptions: {
           requestValidatorName: 'querystring-validator',
@@ -198,5 +548,117 @@ export class SearchAPIConstruct extends Construct {
         reason: 'Method uses IAM Authorization instead',
       },
     ], true);
+
+    // Add the routes to manage the backfill jobs, handled by the same function that creates the initial embeddings
+    const backfillIntegration = new LambdaIntegration(
+      this.createInitialEmbeddingsFunction,
+    );
+    const backfillResource = this.restApi.root.addResource('backfill');
+    backfillResource.addMethod('POST', backfillIntegration, {
+      authorizationType: AuthorizationType.IAM,
+      requestValidator: bodyValidator,
+      requestModels: {
+        'application/json': new Model(this, 'BackfillRequestModel', {
+          restApi: this.restApi,
+          contentType: 'application/json',
+          modelName: 'BackfillRequestModel',
+          schema: {
+            type: JsonSchemaType.OBJECT,
+            properties: {
+              chunkSize: {
+                type: JsonSchemaType.INTEGER,
+                minimum: 1,
+                maximum: 1000,
+              },
+              version: {
+                type: JsonSchemaType.STRING,
+              },
+            },
+          },
+        }),
+      },
+    });
+    const backfillJobResource = backfillResource.addResource('{jobId}');
+    backfillJobResource.addMethod('GET', backfillIntegration, {
+      authorizationType: AuthorizationType.IAM,
+    });
+    backfillJobResource.addMethod('POST', backfillIntegration, {
+      authorizationType: AuthorizationType.IAM,
+      requestValidator: bodyValidator,
+      requestModels: {
+        'application/json': new Model(this, 'BackfillJobActionModel', {
+          restApi: this.restApi,
+          contentType: 'application/json',
+          modelName: 'BackfillJobActionModel',
+          schema: {
+            type: JsonSchemaType.OBJECT,
+            required: ['action'],
+            properties: {
+              action: {
+                type: JsonSchemaType.STRING,
+                enum: ['run', 'pause', 'resume', 'cancel'],
+              },
+            },
+          },
+        }),
+      },
+    });
+    NagSuppressions.addResourceSuppressions(backfillResource, [
+      {
+        id: 'AwsSolutions-COG4',
+        reason: 'Method uses IAM Authorization instead',
+      },
+    ], true);
+
+    // Add the routes to manage the migration of the embeddings to a new version
+    const migrationsIntegration = new LambdaIntegration(
+      this.migrationsFunction,
+    );
+    const migrationsResource = this.restApi.root.addResource('migrations');
+    migrationsResource.addMethod('GET', migrationsIntegration, {
+      authorizationType: AuthorizationType.IAM,
+    });
+    migrationsResource.addMethod('POST', migrationsIntegration, {
+      authorizationType: AuthorizationType.IAM,
+    });
+    migrationsResource.addResource('switch').addMethod(
+      'POST',
+      migrationsIntegration,
+      {
+        authorizationType: AuthorizationType.IAM,
+      },
+    );
+    migrationsResource.addResource('cleanup').addMethod(
+      'POST',
+      migrationsIntegration,
+      {
+        authorizationType: AuthorizationType.IAM,
+      },
+    );
+    NagSuppressions.addResourceSuppressions(migrationsResource, [
+      {
+        id: 'AwsSolutions-COG4',
+        reason: 'Method uses IAM Authorization instead',
+      },
+    ], true);
+
+    // Add the route to flush the query embedding cache, handled by the same function that manages the migrations
+    const cacheResource = this.restApi.root.addResource('cache');
+    cacheResource.addResource('query-embeddings').addMethod(
+      'DELETE',
+      migrationsIntegration,
+      {
+        authorizationType: AuthorizationType.IAM,
+        requestParameters: {
+          'method.request.querystring.model': false,
+        },
+      },
+    );
+    NagSuppressions.addResourceSuppressions(cacheResource, [
+      {
+        id: 'AwsSolutions-COG4',
+        reason: 'Method uses IAM Authorization instead',
+      },
+    ], true);
   }
 }
@@ -0,0 +1,230 @@
+import { getTemplateFields } from '../functions/commons/placeholders';
+import {
+  type EmbeddingTemplateConfig,
+  parseEmbeddingTemplateConfig,
+} from './embedding-config';
+
+/**
+ * An additional named embedding of the documents of a source, i.e. an embedding of the `title` next to the one of the `plot`,
+ * created for each embedding version of the source and searched along with the embedding of the source in multi-field search.
+ */
+export type EmbeddingFieldConfig = {
+  /**
+   * Name used to weight the field in the search, `default` is reserved for the embedding of the source
+   */
+  name: string;
+  /**
+   * Template that composes the text to embed from the fields of the documents
+   */
+  template: EmbeddingTemplateConfig;
+  /**
+   * Path of the embedding field
+   * @default '<name>_embedding'
+   */
+  path?: string;
+  /**
+   * Name of the vector search index on the embedding field
+   * @default '<name>_vector_index'
+   */
+  index?: string;
+};
+
+/**
+ * A collection whose documents are embedded and searched, along with how its documents are embedded and returned.
+ *
+ * It's read from the `sources` context key of the CDK app, an array of sources whose first one is the default source, i.e.
+ * `cdk deploy --context sources='[{"database":"sample_mflix","collection":"movies","template":{"version":"1","template":"{plot}"}}]'`.
+ * When it's not set, the `movies` collection of the `sample_mflix` database is the only source.
+ */
+export type SourceCollectionConfig = {
+  /**
+   * Name used to pick the collection via the `collection` parameter of the API
+   * @default the name of the collection
+   */
+  name?: string;
+  database: string;
+  collection: string;
+  /**
+   * Template that composes the text to embed from the fields of the documents
+   */
+  template: EmbeddingTemplateConfig;
+  /**
+   * Path of the embedding field of the first embedding version
+   * @default 'embedding'
+   */
+  path?: string;
+  /**
+   * Name of the vector search index on the embedding field
+   * @default 'vector_index'
+   */
+  index?: string;
+  /**
+   * Name of the Atlas Search index used by the `text` and `hybrid` search modes
+   * @default 'default'
+   */
+  textIndex?: string;
+  /**
+   * Fields searched by the full-text search, along with their boost
+   * @default the fields of the template
+   */
+  textFields?: { path: string; boost?: number }[];
+  /**
+   * Fields returned in the search results
+   * @default the fields of the template
+   */
+  projection?: string[];
+  /**
+   * Name of the collection that stores the passages in chunking mode, in the same database
+   * @default '<collection>_chunks'
+   */
+  chunks?: string;
+  /**
+   * Additional embedding fields of the documents
+   * @default []
+   */
+  fields?: EmbeddingFieldConfig[];
+};
+
+/**
+ * Parses the embedding fields of a source and fills in their defaults.
+ *
+ * @param source - The name of the source, used in the error messages
+ * @param path - The path of the embedding of the source, which the fields can't use
+ * @param configs - The embedding fields of the source
+ */
+const parseEmbeddingFieldsConfig = (
+  source: string,
+  path: string,
+  configs: EmbeddingFieldConfig[] = [],
+): Required<EmbeddingFieldConfig>[] => {
+  const fields = configs.map((config): Required<EmbeddingFieldConfig> => {
+    if (!config.name || config.name === 'default') {
+      throw new Error(
+        `Each embedding field of source ${source} requires a name other than default`,
+      );
+    }
+    const template = parseEmbeddingTemplateConfig(config.template);
+    if (!template) {
+      throw new Error(
+        `Embedding field ${config.name} of source ${source} requires a template`,
+      );
+    }
+
+    return {
+      name: config.name,
+      template,
+      path: config.path ?? `${config.name}_embedding`,
+      index: config.index ?? `${config.name}_vector_index`,
+    };
+  });
+  const paths = [path, ...fields.map(({ path }) => path)];
+  const names = fields.map(({ name }) => name);
+  if (
+    new Set(paths).size !== paths.length
+    || new Set(names).size !== names.length
+  ) {
+    throw new Error(
+      `The embedding fields of source ${source} must have distinct names and paths`,
+    );
+  }
+
+  return fields;
+};
+
+/**
+ * Returns the configuration of the `movies` collection, the source used when the `sources` context key isn't set.
+ * It matches the defaults of the Lambda functions so that existing deployments keep their fields and indexes.
+ *
+ * @param template - The embedding template set in the `embeddingTemplate` context key, if any
+ */
+const getDefaultSourceConfig = (
+  template: EmbeddingTemplateConfig = { version: '1', template: '{plot}' },
+): Required<SourceCollectionConfig> => ({
+  name: 'movies',
+  database: 'sample_mflix',
+  collection: 'movies',
+  template,
+  path: 'plot_embedding',
+  index: 'vector_index',
+  textIndex: 'default',
+  textFields: [
+    { path: 'title', boost: 3 },
+    { path: 'cast', boost: 2 },
+    { path: 'plot' },
+  ],
+  projection: ['title', 'plot'],
+  chunks: 'chunks',
+  fields: [],
+});
+
+/**
+ * Parses the source collections from the CDK context value, which is an array when set in `cdk.json`
+ * and a JSON string when set via the command line, then fills in the defaults of each source.
+ *
+ * @param value - The value of the `sources` context key
+ * @param template - The value of the `embeddingTemplate` context key, which only applies when no source is set
+ */
+export const parseSourcesConfig = (
+  value: unknown,
+  template?: EmbeddingTemplateConfig,
+): Required<SourceCollectionConfig>[] => {
+  const configs = typeof value === 'string' ? JSON.parse(value) : value;
+  if (!configs) return [getDefaultSourceConfig(template)];
+  if (template) {
+    throw new Error(
+      'The embeddingTemplate context key only applies without sources, set the template of each source instead',
+    );
+  }
+  if (!Array.isArray(configs) || configs.length === 0) {
+    throw new Error('Sources must be a non-empty array');
+  }
+
+  const sources = configs.map(
+    (config: SourceCollectionConfig): Required<SourceCollectionConfig> => {
+      if (!config.database || !config.collection) {
+        throw new Error('Each source requires a database and a collection');
+      }
+      const sourceTemplate = parseEmbeddingTemplateConfig(config.template);
+      if (!sourceTemplate) {
+        throw new Error(
+          `Source ${config.database}.${config.collection} requires a template`,
+        );
+      }
+      const fields = getTemplateFields(sourceTemplate);
+      const name = config.name ?? config.collection;
+      const path = config.path ?? 'embedding';
+
+      return {
+        name,
+        database: config.database,
+        collection: config.collection,
+        template: sourceTemplate,
+        path,
+        index: config.index ?? 'vector_index',
+        textIndex: config.textIndex ?? 'default',
+        textFields: config.textFields ?? fields.map((path) => ({ path })),
+        projection: config.projection ?? fields,
+        chunks: config.chunks ?? `${config.collection}_chunks`,
+        fields: parseEmbeddingFieldsConfig(name, path, config.fields),
+      };
+    },
+  );
+  const names = sources.map(({ name }) => name);
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate) {
+    throw new Error(`Source name ${duplicate} is used more than once`);
+  }
+
+  return sources;
+};
+
+/**
+ * Returns the environment variable used by the Lambda functions to embed and search the source collections.
+ *
+ * @param sources - The source collections, with their defaults filled in
+ */
+export const getSourcesEnvironment = (
+  sources: Required<SourceCollectionConfig>[],
+): Record<string, string> => ({
+  SOURCE_COLLECTIONS: JSON.stringify(sources),
+});